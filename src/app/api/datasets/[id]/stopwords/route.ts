@@ -0,0 +1,170 @@
+// src/app/api/datasets/[id]/stopwords/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { userDataStore, resolveSearchFields } from '@/lib/dataStore';
+import { authorizeDatasetRequest } from '@/lib/apiKeyMiddleware';
+import { ExportableZipTrie } from '@/lib/ziptrieExport';
+import { StopwordConfig, validateStopwordConfig } from '@/lib/analyzer';
+import { LANGUAGES } from '@/lib/languages';
+import { STOPWORDS } from '@/lib/stopwords';
+import {
+  DatasetSettings,
+  getDatasetSettings,
+  applyDatasetSettings
+} from '@/lib/datasetSettings';
+import { updateDatasetSettings } from '@/lib/datasetSettingsStore';
+
+/**
+ * The stopword configuration and the built-in lists it can use
+ */
+function stopwordsResponse(stopwords: StopwordConfig) {
+  return {
+    stopwords: {
+      languages: stopwords.languages ?? [],
+      words: stopwords.words ?? []
+    },
+    availableLanguages: LANGUAGES.map(language => ({
+      language,
+      wordCount: STOPWORDS[language].length
+    }))
+  };
+}
+
+/**
+ * Save a new stopword configuration and re-index the dataset with it.
+ * Stopwords are removed at index time, so the stored trie and the trie
+ * in memory are rebuilt rather than only having their settings changed.
+ */
+async function saveStopwords(userId: string, datasetId: string, stopwords: StopwordConfig) {
+  const dataset = await prisma.dataset.findUnique({
+    where: { id: datasetId },
+    include: {
+      products: true,
+      trie: true
+    }
+  });
+
+  if (!dataset) {
+    return NextResponse.json(
+      { error: 'Dataset not found' },
+      { status: 404 }
+    );
+  }
+
+  const storedSettings = getDatasetSettings(dataset.trie?.trieJson);
+  const changes: Partial<DatasetSettings> = {
+    analyzer: { ...storedSettings.analyzer, stopwords }
+  };
+  const settings: DatasetSettings = { ...storedSettings, ...changes };
+
+  // Re-index with the fields the dataset is searched by
+  const rawData = dataset.products.map(product => product.data as Record<string, unknown>);
+  const inMemoryData = userDataStore[userId]?.dataId === datasetId ? userDataStore[userId] : null;
+  const searchFields = resolveSearchFields(rawData, dataset.trie?.trieJson, inMemoryData?.searchFields);
+
+  const trie = new ExportableZipTrie();
+  applyDatasetSettings(trie, settings);
+  console.log(`Re-indexing ${rawData.length} items with new stopwords:`, stopwords);
+  trie.loadData(rawData, searchFields);
+
+  await updateDatasetSettings(datasetId, changes, trie.export());
+
+  // Searches served from memory use the new trie straight away
+  if (inMemoryData) {
+    userDataStore[userId] = {
+      ...inMemoryData,
+      trie,
+      rawData,
+      settings,
+      lastUpdated: new Date(),
+      totalRecords: rawData.length
+    };
+  }
+
+  return NextResponse.json({
+    success: true,
+    ...stopwordsResponse(stopwords)
+  });
+}
+
+/**
+ * GET endpoint for a dataset's stopword configuration
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: { id: string } }
+) {
+  try {
+    const datasetId = context.params.id;
+    const userId = await authorizeDatasetRequest(request, datasetId);
+    if (userId instanceof NextResponse) return userId;
+
+    const trie = await prisma.trie.findUnique({
+      where: { datasetId },
+      select: { trieJson: true }
+    });
+    const settings = getDatasetSettings(trie?.trieJson);
+
+    return NextResponse.json(stopwordsResponse(settings.analyzer?.stopwords ?? {}));
+  } catch (error) {
+    console.error('Error fetching stopwords:', error);
+    return NextResponse.json(
+      { error: 'An error occurred while fetching the stopwords' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT endpoint to replace a dataset's stopword configuration
+ */
+export async function PUT(
+  request: NextRequest,
+  context: { params: { id: string } }
+) {
+  try {
+    const datasetId = context.params.id;
+    const userId = await authorizeDatasetRequest(request, datasetId);
+    if (userId instanceof NextResponse) return userId;
+
+    const body = await request.json();
+    const stopwordsError = validateStopwordConfig(body);
+    if (stopwordsError) {
+      return NextResponse.json(
+        { error: stopwordsError },
+        { status: 400 }
+      );
+    }
+
+    const { languages, words } = body as StopwordConfig;
+    return await saveStopwords(userId, datasetId, { languages, words });
+  } catch (error) {
+    console.error('Error updating stopwords:', error);
+    return NextResponse.json(
+      { error: 'An error occurred while updating the stopwords' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE endpoint to stop removing stopwords from a dataset
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: { id: string } }
+) {
+  try {
+    const datasetId = context.params.id;
+    const userId = await authorizeDatasetRequest(request, datasetId);
+    if (userId instanceof NextResponse) return userId;
+
+    return await saveStopwords(userId, datasetId, {});
+  } catch (error) {
+    console.error('Error removing stopwords:', error);
+    return NextResponse.json(
+      { error: 'An error occurred while removing the stopwords' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+// src/app/api/datasets/[id]/synonyms/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { userDataStore } from '@/lib/dataStore';
+import { authorizeDatasetRequest } from '@/lib/apiKeyMiddleware';
+import { validateSynonymRules } from '@/lib/synonyms';
+import { loadDatasetSettings, updateDatasetSettings } from '@/lib/datasetSettingsStore';
+
+/**
+ * Save a dataset's synonym rules. Synonyms only change how queries are
+ * expanded, so the trie in memory keeps its index and picks up the rules
+ * for the next search.
+ */
+async function saveSynonyms(userId: string, datasetId: string, synonyms: string[]) {
+  const settings = await updateDatasetSettings(datasetId, { synonyms });
+
+  const inMemoryData = userDataStore[userId];
+  if (inMemoryData && inMemoryData.dataId === datasetId) {
+    inMemoryData.trie.setSynonyms(synonyms);
+    inMemoryData.settings = settings;
+    console.log(`Applied ${synonyms.length} synonym rules to the in-memory trie`);
+  }
+
+  return NextResponse.json({
+    success: true,
+    synonyms
+  });
+}
+
+/**
+ * GET endpoint for a dataset's synonym rules
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: { id: string } }
+) {
+  try {
+    const datasetId = context.params.id;
+    const userId = await authorizeDatasetRequest(request, datasetId);
+    if (userId instanceof NextResponse) return userId;
+
+    const settings = await loadDatasetSettings(datasetId);
+
+    return NextResponse.json({
+      synonyms: settings.synonyms ?? []
+    });
+  } catch (error) {
+    console.error('Error fetching synonyms:', error);
+    return NextResponse.json(
+      { error: 'An error occurred while fetching the synonyms' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT endpoint to replace a dataset's synonym rules
+ */
+export async function PUT(
+  request: NextRequest,
+  context: { params: { id: string } }
+) {
+  try {
+    const datasetId = context.params.id;
+    const userId = await authorizeDatasetRequest(request, datasetId);
+    if (userId instanceof NextResponse) return userId;
+
+    const { synonyms } = await request.json();
+    const synonymsError = validateSynonymRules(synonyms);
+    if (synonymsError) {
+      return NextResponse.json(
+        { error: synonymsError },
+        { status: 400 }
+      );
+    }
+
+    return await saveSynonyms(userId, datasetId, synonyms);
+  } catch (error) {
+    console.error('Error updating synonyms:', error);
+    return NextResponse.json(
+      { error: 'An error occurred while updating the synonyms' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE endpoint to remove all of a dataset's synonym rules
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: { id: string } }
+) {
+  try {
+    const datasetId = context.params.id;
+    const userId = await authorizeDatasetRequest(request, datasetId);
+    if (userId instanceof NextResponse) return userId;
+
+    return await saveSynonyms(userId, datasetId, []);
+  } catch (error) {
+    console.error('Error removing synonyms:', error);
+    return NextResponse.json(
+      { error: 'An error occurred while removing the synonyms' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,34 @@
 // src/app/api/search/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import { getAuth } from '@clerk/nextjs/server';
-import { ZipTrie } from '@/lib/ziptrie';
-import { userDataStore } from '@/lib/dataStore';
+import { ZipTrie, SearchOptions, SearchResult, SearchResponse, MatchMode, MATCH_MODES } from '@/lib/ziptrie';
+import { ExportableZipTrie } from '@/lib/ziptrieExport';
+import { parseQuery, formatQuery, rangeFields, QueryNode, QueryParseError } from '@/lib/queryParser';
+import { SearchFilter, validateSearchFilter } from '@/lib/fieldIndex';
+import { parseSort } from '@/lib/sort';
+import { recordValue } from '@/lib/facets';
+import { discoverFieldPaths, normalizeFieldPath, sameFieldPath } from '@/lib/fieldPaths';
+import { searchFingerprint, encodeCursor, decodeCursor } from '@/lib/pagination';
+import { HighlightOptions } from '@/lib/highlight';
+import { PatternLimitError, DEFAULT_PATTERN_LIMITS } from '@/lib/patterns';
+import { MAX_COLLAPSE_SIZE } from '@/lib/collapse';
+import { validateAnalyzerConfig } from '@/lib/analyzer';
+import { userDataStore, loadUserData } from '@/lib/dataStore';
+import {
+  DatasetSettings,
+  getDatasetSettings,
+  applyDatasetSettings,
+  validateFieldWeights
+} from '@/lib/datasetSettings';
+import { loadDatasetSettings, updateDatasetSettings } from '@/lib/datasetSettingsStore';
 import { prisma } from '@/lib/db';
 import { verifyApiKey, hasDatasetAccess } from '@/lib/apiKeyMiddleware';
 
 // Note: We're using Prisma's automatic type inference for the product data
 
+// Searches with fewer results than this get a spelling correction ("did you mean") if one finds more
+const LOW_RESULT_COUNT = 3;
+
 /**
  * Debug function to log the ZipTrie structure
  */
@@ -25,6 +46,23 @@ function debugZipTrie(trie: ZipTrie) {
   console.log('All words in trie (up to 20):', trie.getAllWords(20));
 }
 
+/**
+ * Respond to a query with invalid syntax
+ */
+function invalidQueryResponse(error: QueryParseError, query: string) {
+  return NextResponse.json(
+    {
+      error: 'Invalid query',
+      details: {
+        message: error.message,
+        position: error.position,
+        query
+      }
+    },
+    { status: 400 }
+  );
+}
+
 /**
  * Helper function to perform search on in-memory data
  */
@@ -36,7 +74,12 @@ async function performInMemorySearch(
   },
   query: string,
   searchFields: string[],
-  limit: number
+  limit: number,
+  options: SearchOptions,
+  // Identifies the search in the cursor of the next page
+  fingerprint: string,
+  // Include the first page of results for a spelling correction
+  includeSuggestionResults: boolean = false
 ) {
   // Determine which fields to use for search
   let fieldsToUse = userData.searchFields;
@@ -44,51 +87,176 @@ async function performInMemorySearch(
   // If specific fields were requested and they're different from the current ones, use those instead
   if (searchFields.length > 0 && JSON.stringify(searchFields) !== JSON.stringify(userData.searchFields)) {
     console.log('Using requested search fields:', searchFields);
+    
+    // Requested fields must have been indexed, otherwise they could never match
+    const indexedFields = userData.searchFields.map(field => normalizeFieldPath(field));
+    const unknownFields = searchFields.filter(field => !indexedFields.includes(normalizeFieldPath(field)));
+    if (unknownFields.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Requested fields are not indexed',
+          details: {
+            fields: unknownFields,
+            availableFields: userData.searchFields
+          }
+        },
+        { status: 400 }
+      );
+    }
+    
     fieldsToUse = searchFields;
   }
   
+  // The query is parsed once the dataset is loaded: regular expressions are
+  // only read for fields it indexes, so `http://example.com` stays a plain term
+  let parsedQuery: QueryNode | null;
+  try {
+    parsedQuery = parseQuery(query, { fields: userData.trie.getIndexedFields() });
+  } catch (error) {
+    if (error instanceof QueryParseError) return invalidQueryResponse(error, query);
+    throw error;
+  }
+  
+  // Ranges, in a filter or in the query, need a field with numeric or date values to compare against
+  const rangeFieldNames = [...Object.keys(options.filter?.range ?? {}), ...(parsedQuery ? rangeFields(parsedQuery) : [])];
+  if (rangeFieldNames.length > 0) {
+    const typedFields = userData.trie.getTypedFields();
+    const typedFieldNames = Object.keys(typedFields).map(field => normalizeFieldPath(field));
+    const untypedFields = Array.from(new Set(rangeFieldNames))
+      .filter(field => !typedFieldNames.includes(normalizeFieldPath(field)));
+    if (untypedFields.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Range filters need numeric or date fields',
+          details: {
+            fields: untypedFields,
+            availableFields: typedFields
+          }
+        },
+        { status: 400 }
+      );
+    }
+  }
+  
   // Debug the trie structure
   debugZipTrie(userData.trie);
   
   // Perform the search
   console.time('search');
   const startTime = performance.now();
-  const searchResults = userData.trie.search(query, limit);
+  const offset = options.offset ?? 0;
+  let response: SearchResponse;
+  try {
+    response = userData.trie.searchDetailed(
+      parsedQuery,
+      { ...options, limit, fields: fieldsToUse }
+    );
+  } catch (error) {
+    // Wildcards and regular expressions that expand to too much are the caller's to narrow down
+    if (error instanceof PatternLimitError) {
+      console.timeEnd('search');
+      return NextResponse.json(
+        {
+          error: 'Pattern too broad',
+          details: {
+            message: error.message,
+            limits: DEFAULT_PATTERN_LIMITS
+          }
+        },
+        { status: 400 }
+      );
+    }
+    throw error;
+  }
+  const { results: searchResults, total, totalHits, facets } = response;
   const endTime = performance.now();
   console.timeEnd('search');
   
   // Calculate search performance metrics
   const searchTime = endTime - startTime;
-  console.log(`Search completed in ${searchTime.toFixed(2)}ms with ${searchResults.length} results`);
+  console.log(`Search completed in ${searchTime.toFixed(2)}ms with ${searchResults.length} of ${total} results`);
   
   // Format the results for the response
-  const formattedResults = searchResults.map(item => {
+  const formatResult = (item: SearchResult): Record<string, unknown> => {
     // Extract only the fields that should be returned
     const result: Record<string, unknown> = {};
     
     // Use the return fields from the user data store
     const fieldsToReturn = userData.returnFields || fieldsToUse;
     
-    // Extract the requested fields
+    // Extract the requested fields; nested field paths are returned under their path
     fieldsToReturn.forEach(field => {
       if (field in item.data) {
         result[field] = item.data[field];
+      } else {
+        const value = recordValue(item.data, field);
+        if (value !== undefined) result[field] = value;
       }
     });
     
     // Add the score
     result._score = item.score;
     
+    // Add the matches by field, if highlighting was asked for
+    if (item.highlights) {
+      result._highlights = item.highlights;
+    }
+    
+    // Add the group the result stands for, if results were collapsed
+    if (item.group) {
+      result._group = {
+        value: item.group.value,
+        count: item.group.count,
+        ...(item.group.members ? { members: item.group.members.map(formatResult) } : {})
+      };
+    }
+    
     return result;
-  });
+  };
+  const formattedResults = searchResults.map(formatResult);
+  
+  // When the query finds little or nothing, suggest a spelling correction that finds more
+  let didYouMean: Record<string, unknown> = {};
+  if (parsedQuery && total < LOW_RESULT_COUNT) {
+    const correctedQuery = userData.trie.correctQuery(parsedQuery, { ...options, fields: fieldsToUse });
+    if (correctedQuery) {
+      const corrected = userData.trie.searchDetailed(
+        correctedQuery,
+        { ...options, limit, offset: 0, fields: fieldsToUse, highPerformance: true }
+      );
+      if (corrected.total > total) {
+        const suggestion = formatQuery(correctedQuery);
+        console.log(`Did you mean "${suggestion}"? (${corrected.total} results)`);
+        didYouMean = includeSuggestionResults
+          ? { suggestion, suggestionTotal: corrected.total, suggestionResults: corrected.results.map(formatResult) }
+          : { suggestion, suggestionTotal: corrected.total };
+      }
+    }
+  }
+  
+  // The next page starts after this one, if there are more results
+  const nextOffset = offset + limit;
+  const nextCursor = nextOffset < total ? encodeCursor(nextOffset, fingerprint) : null;
   
   // Return the search results without visualization data
   return NextResponse.json({
     results: formattedResults,
+    total,
+    ...(totalHits !== undefined ? { totalHits } : {}),
+    offset,
+    nextCursor,
+    ...didYouMean,
+    ...(options.facets ? { facets } : {}),
     performance: {
       time: searchTime,
       resultsCount: searchResults.length,
-      query: query
+      query: query,
+      matchMode: options.matchMode ?? 'prefix',
+      fuzzy: Boolean(options.fuzzy),
+      phonetic: Boolean(options.phonetic),
+      filter: options.filter ?? null,
+      sort: options.sort ?? null,
+      collapse: options.collapse?.field ?? null
     }
   });
 }
@@ -120,17 +288,179 @@ export async function GET(request: NextRequest) {
     const dataId = searchParams.get('dataId') || '';
     const fieldsParam = searchParams.get('fields') || '';
     const limit = searchParams.get('limit') ? parseInt(searchParams.get('limit') || '10') : 10;
+    const fuzzyParam = searchParams.get('fuzzy') || '';
+    const matchModeParam = searchParams.get('matchMode') || 'prefix';
+    
+    if (!MATCH_MODES.includes(matchModeParam as MatchMode)) {
+      return NextResponse.json(
+        { error: `Invalid matchMode. Expected one of: ${MATCH_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
     
     // Parse the fields parameter if provided
     const searchFields = fieldsParam ? fieldsParam.split(',') : [];
     
-    console.log('Search request:', { userId, query, dataId, searchFields, limit });
+    // Fuzzy matching is opt-in: `fuzzy=true` allows one edit, `fuzzy=2` allows two
+    const searchOptions: SearchOptions = { matchMode: matchModeParam as MatchMode };
+    if (fuzzyParam && fuzzyParam !== 'false') {
+      const maxEdits = parseInt(fuzzyParam);
+      searchOptions.fuzzy = {
+        maxEdits: isNaN(maxEdits) ? 1 : maxEdits,
+        transpositions: searchParams.get('transpositions') === 'true'
+      };
+    }
+    
+    // Phonetic matching is opt-in too, and only applies to fields with a phonetic encoding
+    if (searchParams.get('phonetic') === 'true') {
+      searchOptions.phonetic = true;
+    }
+    
+    // Filters are passed as JSON, e.g. `filter={"range":{"price":{"gte":10,"lte":50}}}`
+    const filterParam = searchParams.get('filter');
+    if (filterParam) {
+      let filter: unknown;
+      try {
+        filter = JSON.parse(filterParam);
+      } catch {
+        return NextResponse.json(
+          { error: 'Invalid filter. Expected a JSON object' },
+          { status: 400 }
+        );
+      }
+      
+      const filterError = validateSearchFilter(filter);
+      if (filterError) {
+        return NextResponse.json(
+          { error: filterError },
+          { status: 400 }
+        );
+      }
+      searchOptions.filter = filter as SearchFilter;
+    }
+    
+    // Results are ranked by relevance unless sorted by fields, e.g. `sort=price:asc,createdAt:desc`
+    const sortParam = searchParams.get('sort') || '';
+    if (sortParam) {
+      const sort = parseSort(sortParam);
+      if (typeof sort === 'string') {
+        return NextResponse.json(
+          { error: sort },
+          { status: 400 }
+        );
+      }
+      searchOptions.sort = sort;
+    }
+    
+    // Facet counts are computed over all matches, e.g. `facets=brand,category`
+    const facetsParam = searchParams.get('facets') || '';
+    if (facetsParam) {
+      searchOptions.facets = facetsParam.split(',').map(field => field.trim()).filter(Boolean);
+      
+      const facetSizeParam = searchParams.get('facetSize');
+      if (facetSizeParam) {
+        const facetSize = parseInt(facetSizeParam);
+        if (isNaN(facetSize) || facetSize < 1) {
+          return NextResponse.json(
+            { error: 'Invalid facetSize. Expected a positive number' },
+            { status: 400 }
+          );
+        }
+        searchOptions.facetSize = facetSize;
+      }
+    }
+    
+    // Collapsing keeps the best hit per value of a field, e.g. `collapse=parentSku`
+    const collapseParam = (searchParams.get('collapse') || '').trim();
+    if (collapseParam) {
+      let size = 0;
+      const collapseSizeParam = searchParams.get('collapseSize');
+      if (collapseSizeParam) {
+        size = parseInt(collapseSizeParam);
+        if (isNaN(size) || size < 0 || size > MAX_COLLAPSE_SIZE) {
+          return NextResponse.json(
+            { error: `Invalid collapseSize. Expected a number from 0 to ${MAX_COLLAPSE_SIZE}` },
+            { status: 400 }
+          );
+        }
+      }
+      searchOptions.collapse = { field: collapseParam, size };
+    }
+    
+    // Highlighting is opt-in: `highlight=true` for the searched fields, or a comma-separated list of fields
+    const highlightParam = searchParams.get('highlight') || '';
+    if (highlightParam && highlightParam !== 'false') {
+      const highlightOptions: HighlightOptions = {};
+      if (highlightParam !== 'true') {
+        highlightOptions.fields = highlightParam.split(',').map(field => field.trim()).filter(Boolean);
+      }
+      highlightOptions.preTag = searchParams.get('highlightPreTag') ?? undefined;
+      highlightOptions.postTag = searchParams.get('highlightPostTag') ?? undefined;
+      
+      const snippetLengthParam = searchParams.get('snippetLength');
+      if (snippetLengthParam) {
+        const snippetLength = parseInt(snippetLengthParam);
+        if (isNaN(snippetLength) || snippetLength < 1) {
+          return NextResponse.json(
+            { error: 'Invalid snippetLength. Expected a positive number' },
+            { status: 400 }
+          );
+        }
+        highlightOptions.snippetLength = snippetLength;
+      }
+      searchOptions.highlight = highlightOptions;
+    }
+    
+    if (isNaN(limit) || limit < 1) {
+      return NextResponse.json(
+        { error: 'Invalid limit. Expected a positive number' },
+        { status: 400 }
+      );
+    }
+    
+    // With `suggestionResults=true`, a spelling correction comes with its first page of results
+    const includeSuggestionResults = searchParams.get('suggestionResults') === 'true';
+    
+    // Pages after the first are fetched with `offset`, or with the `cursor` of the previous page.
+    // A cursor only works for the search it came from, so everything that changes the results
+    // (but not the page size) goes into its fingerprint.
+    const fingerprint = searchFingerprint({ query, dataId, searchFields, ...searchOptions });
+    const offsetParam = searchParams.get('offset');
+    const cursorParam = searchParams.get('cursor');
+    if (offsetParam && cursorParam) {
+      return NextResponse.json(
+        { error: 'Use either offset or cursor, not both' },
+        { status: 400 }
+      );
+    }
+    if (offsetParam) {
+      const offset = parseInt(offsetParam);
+      if (isNaN(offset) || offset < 0) {
+        return NextResponse.json(
+          { error: 'Invalid offset. Expected a number of 0 or more' },
+          { status: 400 }
+        );
+      }
+      searchOptions.offset = offset;
+    }
+    if (cursorParam) {
+      const offset = decodeCursor(cursorParam, fingerprint);
+      if (typeof offset === 'string') {
+        return NextResponse.json(
+          { error: offset },
+          { status: 400 }
+        );
+      }
+      searchOptions.offset = offset;
+    }
+    
+    console.log('Search request:', { userId, query, dataId, searchFields, limit, ...searchOptions });
     console.log('Search query (lowercase):', query.toLowerCase());
     
     // First check if we have data in memory for quick search
     if (userDataStore[userId] && userDataStore[userId].dataId === dataId) {
       console.log('Using in-memory data for search');
-      return performInMemorySearch(userDataStore[userId], query, searchFields, limit);
+      return performInMemorySearch(userDataStore[userId], query, searchFields, limit, searchOptions, fingerprint, includeSuggestionResults);
     }
     
     // If not in memory, fetch from database
@@ -156,16 +486,9 @@ export async function GET(request: NextRequest) {
       console.log('Using latest dataset:', targetDatasetId);
     }
     
-    // Fetch the dataset with its products
-    const dataset = await prisma.dataset.findUnique({
-      where: { id: targetDatasetId },
-      include: {
-        products: true,
-        trie: true
-      }
-    });
-    
-    if (!dataset) {
+    // Load the dataset's records into a trie and keep it in memory for future searches
+    const userData = await loadUserData(userId, targetDatasetId, searchFields);
+    if (!userData) {
       console.log('Dataset not found:', targetDatasetId);
       return NextResponse.json({
         results: [],
@@ -173,47 +496,8 @@ export async function GET(request: NextRequest) {
       });
     }
     
-    console.log(`Found dataset with ${dataset.products.length} products`);
-    
-    // Extract the data from the products
-    const rawData = dataset.products.map(product => product.data as Record<string, unknown>);
-    
-    // Determine which fields to use for search
-    let fieldsToUse = searchFields;
-    
-    // If no fields are specified and we have trie data, use the fields from there
-    if (fieldsToUse.length === 0 && dataset.trie?.trieJson) {
-      const trieData = dataset.trie.trieJson as Record<string, unknown>;
-      if (trieData.fields && Array.isArray(trieData.fields)) {
-        fieldsToUse = trieData.fields as string[];
-      }
-    }
-    
-    // If still no fields, use all available fields from the first item
-    if (fieldsToUse.length === 0 && rawData.length > 0) {
-      fieldsToUse = Object.keys(rawData[0]);
-    }
-    
-    console.log('Using search fields:', fieldsToUse);
-    
-    // Create a new ZipTrie and load the data
-    const trie = new ZipTrie();
-    console.log(`Loading ${rawData.length} items with fields:`, fieldsToUse);
-    trie.loadData(rawData, fieldsToUse);
-    
-    // Store in memory for future searches
-    userDataStore[userId] = {
-      dataId: targetDatasetId,
-      trie,
-      rawData,
-      searchFields: fieldsToUse,
-      returnFields: fieldsToUse,
-      lastUpdated: new Date(),
-      totalRecords: rawData.length
-    };
-    
     // Now perform the search with the loaded data
-    return performInMemorySearch(userDataStore[userId], query, fieldsToUse, limit);
+    return performInMemorySearch(userData, query, userData.searchFields, limit, searchOptions, fingerprint, includeSuggestionResults);
   } catch (error) {
     console.error('Search error:', error);
     return NextResponse.json(
@@ -247,7 +531,7 @@ export async function POST(request: NextRequest) {
     
     // Parse the request body
     const body = await request.json();
-    const { dataId, searchFields = [], returnFields = [], data } = body;
+    const { dataId, searchFields = [], returnFields = [], fieldWeights, analyzer, data } = body;
     
     console.log('POST request to /api/search:', { dataId, searchFieldsCount: searchFields.length });
     
@@ -257,6 +541,39 @@ export async function POST(request: NextRequest) {
       console.log('Search fields:', searchFields);
       console.log('Return fields:', returnFields);
       
+      // Field weights are optional; when given they must be positive numbers
+      if (fieldWeights !== undefined) {
+        const weightsError = validateFieldWeights(fieldWeights);
+        if (weightsError) {
+          return NextResponse.json({
+            error: weightsError,
+            status: 'error'
+          }, { status: 400 });
+        }
+        
+        const unknownFields = Object.keys(fieldWeights).filter(
+          field => !searchFields.some((searchField: string) => sameFieldPath(searchField, field))
+        );
+        if (unknownFields.length > 0) {
+          return NextResponse.json({
+            error: 'Field weights given for fields that are not searched',
+            details: { fields: unknownFields, searchFields },
+            status: 'error'
+          }, { status: 400 });
+        }
+      }
+      
+      // The analyzer is optional too; it may only name known tokenizers and filters
+      if (analyzer !== undefined) {
+        const analyzerError = validateAnalyzerConfig(analyzer);
+        if (analyzerError) {
+          return NextResponse.json({
+            error: analyzerError,
+            status: 'error'
+          }, { status: 400 });
+        }
+      }
+      
       // Fetch the dataset from the database
       const dataset = await prisma.dataset.findUnique({
         where: { id: dataId },
@@ -279,11 +596,24 @@ export async function POST(request: NextRequest) {
       // Extract the data from the products
       const rawData = dataset.products.map(product => product.data as Record<string, unknown>);
       
+      // Settings sent with the request replace the stored ones; the rest still apply
+      const changes: Partial<DatasetSettings> = {};
+      if (fieldWeights !== undefined) changes.fieldWeights = fieldWeights;
+      if (analyzer !== undefined) changes.analyzer = analyzer;
+      const settings: DatasetSettings = { ...getDatasetSettings(dataset.trie?.trieJson), ...changes };
+      
       // Create a new ZipTrie and load the data with the specified search fields
-      const trie = new ZipTrie();
+      const trie = new ExportableZipTrie();
+      applyDatasetSettings(trie, settings);
       console.log(`Loading ${rawData.length} items with fields:`, searchFields);
       trie.loadData(rawData, searchFields);
       
+      // Save new settings with the dataset. The stored trie (used for offline
+      // search) was built with the old analyzer, so a new analyzer replaces it.
+      if (Object.keys(changes).length > 0) {
+        await updateDatasetSettings(dataId, changes, analyzer !== undefined ? trie.export() : undefined);
+      }
+      
       // Store the configuration in memory
       userDataStore[userId] = {
         dataId,
@@ -291,6 +621,7 @@ export async function POST(request: NextRequest) {
         rawData,
         searchFields,
         returnFields: returnFields.length > 0 ? returnFields : searchFields,
+        settings,
         lastUpdated: new Date(),
         totalRecords: rawData.length
       };
@@ -306,7 +637,9 @@ export async function POST(request: NextRequest) {
         success: true,
         message: 'Search configuration updated successfully',
         dataId,
-        fieldsConfigured: searchFields.length
+        fieldsConfigured: searchFields.length,
+        fieldWeights: settings.fieldWeights ?? {},
+        analyzer: trie.getAnalyzer().getConfig()
       });
     }
     
@@ -356,12 +689,14 @@ export async function POST(request: NextRequest) {
       // Determine fields to index if not provided
       const fieldsToIndex = searchFields.length > 0 ? 
         searchFields : 
-        Object.keys(cleanedData[0] || {});
+        discoverFieldPaths(cleanedData);
       
       console.log('Fields to index:', fieldsToIndex);
       
-      // Create a new ZipTrie instance
+      // Create a new ZipTrie instance with any settings already stored for the dataset
       const trie = new ZipTrie();
+      const settings = await loadDatasetSettings(dataId);
+      applyDatasetSettings(trie, settings);
       
       // Load the data into the trie
       console.log(`Loading ${cleanedData.length} items into ZipTrie with fields:`, fieldsToIndex);
@@ -374,6 +709,7 @@ export async function POST(request: NextRequest) {
         rawData: cleanedData,
         searchFields: fieldsToIndex,
         returnFields: returnFields.length > 0 ? returnFields : fieldsToIndex,
+        settings,
         lastUpdated: new Date(),
         totalRecords: cleanedData.length
       };
@@ -0,0 +1,67 @@
+// src/app/api/suggest/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { MAX_SUGGESTIONS } from '@/lib/ziptrie';
+import { userDataStore, loadUserData } from '@/lib/dataStore';
+import { authorizeDatasetRequest } from '@/lib/apiKeyMiddleware';
+
+/**
+ * GET endpoint for autocomplete suggestions: the words and two-word phrases
+ * of a dataset that complete the text typed so far, most common first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const query = searchParams.get('q') || '';
+    const dataId = searchParams.get('dataId') || '';
+    const limit = searchParams.get('limit') ? parseInt(searchParams.get('limit') || '10') : 10;
+
+    if (!dataId) {
+      return NextResponse.json(
+        { error: 'dataId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_SUGGESTIONS) {
+      return NextResponse.json(
+        { error: `Invalid limit. Expected a number from 1 to ${MAX_SUGGESTIONS}` },
+        { status: 400 }
+      );
+    }
+
+    const userId = await authorizeDatasetRequest(request, dataId);
+    if (userId instanceof NextResponse) return userId;
+
+    // Use the trie in memory, or load the dataset into one
+    let userData = userDataStore[userId]?.dataId === dataId ? userDataStore[userId] : null;
+    if (!userData) {
+      console.log('Loading dataset for suggestions:', dataId);
+      userData = await loadUserData(userId, dataId);
+    }
+
+    if (!userData) {
+      return NextResponse.json(
+        { error: 'Dataset not found' },
+        { status: 404 }
+      );
+    }
+
+    const startTime = performance.now();
+    const suggestions = userData.trie.suggest(query, limit);
+    const endTime = performance.now();
+
+    return NextResponse.json({
+      suggestions,
+      performance: {
+        time: endTime - startTime,
+        query
+      }
+    });
+  } catch (error) {
+    console.error('Suggest error:', error);
+    return NextResponse.json(
+      { error: 'An error occurred while fetching suggestions' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getAuth } from '@clerk/nextjs/server';
 import { prisma } from '@/lib/db';
 import { verifyApiKey, hasDatasetAccess } from '@/lib/apiKeyMiddleware';
+import { getDatasetSettings } from '@/lib/datasetSettings';
 
 /**
  * GET endpoint to retrieve a ZipTrie and its associated data
@@ -126,10 +127,12 @@ export async function GET(
       trieStructure = {}; // Fallback to empty structure
     }
     
-    // Return the trie and items map
+    // Return the trie and items map, with the settings needed to query the trie the
+    // same way it was built (e.g. its analyzer)
     return NextResponse.json({
       trie: trieStructure,
       items: itemsMap,
+      settings: getDatasetSettings(trie.trieJson),
       datasetId: datasetId,
       datasetName: dataset.name,
       totalItems: products.length
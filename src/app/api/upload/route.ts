@@ -4,6 +4,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { prisma } from '@/lib/db';
 import { ZipTrie } from '@/lib/ziptrie';
 import { createExportableZipTrie } from '@/lib/ziptrieExport';
+import { discoverFieldPaths } from '@/lib/fieldPaths';
 import { parse as csvParse } from 'csv-parse/sync';
 import { getAuth } from '@clerk/nextjs/server';
 
@@ -121,10 +122,11 @@ export async function POST(request: NextRequest) {
           }
         }
         
+        // Nested objects and arrays are indexed by field path, e.g. `specs.color` and `tags[]`
         if (parsedData.length > 0) {
-          allFields = Object.keys(parsedData[0]);
+          allFields = discoverFieldPaths(parsedData);
         }
-        console.log(`Parsed JSON with ${parsedData.length} items`);
+        console.log(`Parsed JSON with ${parsedData.length} items and fields:`, allFields);
       }
     } catch (parseError) {
       console.error('Error parsing file:', parseError);
@@ -1,11 +1,12 @@
 // src/app/dashboard/local-search-tab.tsx
 "use client";
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useLocalZipTrie } from '@/hooks/useLocalZipTrie';
 import { useSearchParams } from 'next/navigation';
 import TrieVisualizer from '@/components/TrieVisualizer';
 import { TrieVisualizationNode } from '@/lib/ziptrie';
+import { Analyzer } from '@/lib/analyzer';
 
 export default function LocalSearchTab() {
   const searchParams = useSearchParams();
@@ -30,6 +31,9 @@ export default function LocalSearchTab() {
     isOffline
   } = useLocalZipTrie(datasetId || undefined);
   
+  // Normalize values and queries the same way the dataset's trie was built
+  const analyzer = useMemo(() => new Analyzer(trieData?.settings?.analyzer), [trieData]);
+  
   // Generate visualization data for the entire trie
   const generateVisualizationData = useCallback((query: string = '') => {
     if (!trieData || !trieData.items) {
@@ -56,7 +60,7 @@ export default function LocalSearchTab() {
         
         // Process each field in the item
         for (const field in item) {
-          const value = String(item[field] || '').toLowerCase();
+          const value = analyzer.normalize(String(item[field] || ''));
           
           // Skip empty values or already processed ones
           if (!value || processedValues.has(`${field}:${value}`)) continue;
@@ -105,8 +109,9 @@ export default function LocalSearchTab() {
         let validPath = true;
         
         // Find the path for the current query
-        for (let i = 0; i < query.length && validPath; i++) {
-          const char = query[i].toLowerCase();
+        const normalizedQuery = analyzer.normalize(query);
+        for (let i = 0; i < normalizedQuery.length && validPath; i++) {
+          const char = normalizedQuery[i];
           const childNode = currentNode.children.find(child => child.char === char);
           
           if (childNode) {
@@ -132,7 +137,7 @@ export default function LocalSearchTab() {
       setVisualizationData(null);
       setSearchPath(null);
     }
-  }, [trieData]);
+  }, [trieData, analyzer]);
 
   // Determine which fields to display in results and generate initial visualization
   useEffect(() => {
@@ -169,7 +174,7 @@ export default function LocalSearchTab() {
       console.log('Items available:', Object.keys(trieData.items).length);
       
       // Perform a direct search on the items
-      const query = searchQuery.toLowerCase().trim();
+      const query = analyzer.normalize(searchQuery.trim());
       const results = [];
       
       // Search through all items directly
@@ -180,7 +185,7 @@ export default function LocalSearchTab() {
         
         // Check each field in the item
         for (const field in item) {
-          const value = String(item[field] || '').toLowerCase();
+          const value = analyzer.normalize(String(item[field] || ''));
           
           // Check for exact match
           if (value === query) {
@@ -239,7 +244,7 @@ export default function LocalSearchTab() {
     } finally {
       setIsSearching(false);
     }
-  }, [searchQuery, trieData, generateVisualizationData]);
+  }, [searchQuery, trieData, analyzer, generateVisualizationData]);
 
 
 
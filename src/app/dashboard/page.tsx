@@ -12,6 +12,7 @@ import { useSearchParams } from 'next/navigation';
 import DatasetsTab from './datasets-tab';
 import LocalSearchTab from './local-search-tab';
 import ApiKeysTab from './api-keys-tab';
+import { fieldPathText } from '@/lib/fieldPaths';
 
 type UploadedData = {
   dataId?: string;
@@ -20,12 +21,38 @@ type UploadedData = {
   totalRecords: number;
 };
 
+// Character offsets of a search match in a field value
+type HighlightSpan = {
+  start: number;
+  end: number;
+};
+
 type SearchPerformance = {
   clientTime: number;  // Total time including network
   serverTime: number;  // Pure algorithm time
   resultsCount: number;
 };
 
+// Field value with the search matches marked
+const HighlightedText = ({ text, matches }: { text: string; matches?: HighlightSpan[] }) => {
+  if (!matches || matches.length === 0) return <>{text}</>;
+  
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  matches.forEach((match, index) => {
+    if (match.start > position) parts.push(text.slice(position, match.start));
+    parts.push(
+      <mark key={index} className="bg-yellow-200 text-black rounded-sm">
+        {text.slice(match.start, match.end)}
+      </mark>
+    );
+    position = match.end;
+  });
+  if (position < text.length) parts.push(text.slice(position));
+  
+  return <>{parts}</>;
+};
+
 // File upload zone component
 const FileUploadZone = ({ 
   onDrop, 
@@ -362,7 +389,7 @@ export default function Dashboard() {
         // Construct search URL with current values
         const dataId = currentData.dataId || '';
         const query = currentQuery;
-        const searchUrl = `/api/search?q=${encodeURIComponent(query)}&dataId=${encodeURIComponent(dataId)}`;
+        const searchUrl = `/api/search?q=${encodeURIComponent(query)}&dataId=${encodeURIComponent(dataId)}&highlight=true`;
         
         console.log('Searching with URL:', searchUrl);
         const response = await fetch(searchUrl);
@@ -386,7 +413,7 @@ export default function Dashboard() {
           // Extract fields from results for table headers if available
           if (searchData.results.length > 0) {
             const firstResult = searchData.results[0];
-            const fields = Object.keys(firstResult).filter(key => !['score', '__typename'].includes(key));
+            const fields = Object.keys(firstResult).filter(key => !['score', '__typename', '_highlights'].includes(key));
             
             // Set returnable fields for displaying results
             if (fields.length > 0) {
@@ -648,7 +675,7 @@ export default function Dashboard() {
                               <tr key={rowIndex}>
                                 {uploadedData.fields.map((field) => (
                                   <td key={field} className="px-6 py-4 whitespace-nowrap text-sm text-black">
-                                    {row[field] !== undefined ? String(row[field]) : ''}
+                                    {fieldPathText(row, field)}
                                   </td>
                                 ))}
                               </tr>
@@ -783,7 +810,10 @@ export default function Dashboard() {
                                 <div key={field} className="mb-2">
                                   <span className="text-xs font-medium text-gray-500 uppercase">{field}:</span>
                                   <div className="text-sm text-black font-medium truncate">
-                                    {String(result[field] || '')}
+                                    <HighlightedText
+                                      text={fieldPathText(result, field)}
+                                      matches={(result._highlights as Record<string, { matches: HighlightSpan[] }> | undefined)?.[field]?.matches}
+                                    />
                                   </div>
                                 </div>
                               ))}
@@ -1,6 +1,7 @@
 // src/hooks/useLocalZipTrie.ts
 import { useState, useEffect, useCallback } from 'react';
 import { ExportableZipTrie, SerializedTrieNode } from '@/lib/ziptrieExport';
+import { DatasetSettings, applyDatasetSettings } from '@/lib/datasetSettings';
 import pako from 'pako';
 import {
   storeData,
@@ -128,8 +129,21 @@ type ZipTrieData = {
   datasetId: string;
   datasetName: string;
   totalItems: number;
+  // Dataset settings; cached data from before settings were sent has none
+  settings?: DatasetSettings;
 };
 
+/**
+ * Rebuild a trie from its exported form with the dataset's settings (analyzer,
+ * field weights, synonyms) applied, so local search ranks like /api/search
+ */
+function importTrie(data: ZipTrieData): ExportableZipTrie {
+  const settings = data.settings ?? {};
+  const trie = ExportableZipTrie.import(data.trie, data.items, settings.analyzer);
+  applyDatasetSettings(trie, settings);
+  return trie;
+}
+
 /**
  * Hook for managing ZipTrie data with local caching support
  * This allows the application to work offline after the initial data load
@@ -166,7 +180,7 @@ export function useLocalZipTrie(datasetId?: string) {
                 setTrieData(parsedData);
                 
                 // Initialize the ZipTrie from the cached data
-                const importedTrie = ExportableZipTrie.import(parsedData.trie, parsedData.items);
+                const importedTrie = importTrie(parsedData);
                 setZipTrie(importedTrie);
                 
                 console.log(`Loaded ZipTrie from IndexedDB for dataset ${datasetId}`);
@@ -207,7 +221,7 @@ export function useLocalZipTrie(datasetId?: string) {
                 setTrieData(parsedData);
                 
                 // Initialize the ZipTrie from the cached data
-                const importedTrie = ExportableZipTrie.import(parsedData.trie, parsedData.items);
+                const importedTrie = importTrie(parsedData);
                 setZipTrie(importedTrie);
                 
                 console.log(`Loaded ZipTrie from localStorage for dataset ${datasetId}`);
@@ -262,7 +276,7 @@ export function useLocalZipTrie(datasetId?: string) {
       
       try {
         // Initialize the ZipTrie
-        const importedTrie = ExportableZipTrie.import(data.trie, data.items);
+        const importedTrie = importTrie(data);
         setZipTrie(importedTrie);
         console.log('Successfully imported trie data');
       } catch (importError) {
@@ -0,0 +1,577 @@
+// src/lib/analyzer.ts
+/**
+ * Text analysis pipeline used by ZipTrie at index time and query time
+ *
+ * An analyzer runs a tokenizer over the text, applies Unicode normalisation
+ * to each token and then passes the tokens through a chain of token filters,
+ * in order. Tokens keep their position in the text (for phrase matching) and
+ * their character offsets in the original text.
+ *
+ * Tokens that share a position are alternatives for the same word - a query
+ * matches the position if any of them matches. Filters that split a word
+ * into parts (such as worddelimiter) move the tokens after it along.
+ *
+ * Chinese, Japanese and Korean text isn't written with spaces between words,
+ * so the tokenizers split runs of CJK characters into overlapping bigrams
+ * (`東京タワー` into `東京`, `京タ`, `タワ`, `ワー`), which lets any part of
+ * the run be searched without a dictionary.
+ *
+ * Fields can also be given a phonetic encoding, which adds the phonetic keys
+ * of each word (e.g. `K0RN` for both `Catherine` and `Kathryn`) as derived
+ * tokens after the filters.
+ *
+ * Stopwords are removed after the filters. Removed words leave a gap in the
+ * positions, so phrases still only match words that are next to each other.
+ */
+
+import { Language, LANGUAGES } from './languages';
+import { stem } from './stemmer';
+import { STOPWORDS } from './stopwords';
+import { PhoneticEncoding, PHONETIC_ENCODINGS, phoneticKeys } from './phonetic';
+
+// A single term produced by analysis
+export type Token = {
+  text: string;
+  // Word position in the text; tokens with the same position are alternatives
+  position: number;
+  // Character offsets of the token in the original text
+  start: number;
+  end: number;
+  // Derived forms are indexed separately from the words as written and match
+  // with a lower score. Tokens without a kind are words as written.
+  kind?: TokenKind;
+};
+
+// Kinds of derived tokens
+export type TokenKind = 'stem' | 'phonetic';
+
+// Splits text into tokens
+export type TokenizerType = 'whitespace' | 'standard' | 'bigram';
+
+// Transforms the token stream
+export type TokenFilterType =
+  | 'lowercase'
+  | 'accentfolding'
+  | 'ligaturefolding'
+  | 'asciifolding'
+  | 'punctuation'
+  | 'worddelimiter'
+  | 'stemmer';
+
+// Unicode normalisation applied to every token before the filters
+// - nfkc: compatibility forms become their plain equivalents (`ﬁ` to `fi`, fullwidth `Ａ` to `A`)
+// - none: tokens are used as written
+export type UnicodeNormalization = 'nfkc' | 'none';
+
+export type AnalyzerConfig = {
+  tokenizer?: TokenizerType;
+  // Tokenizers for individual fields, e.g. { title_ja: 'bigram' }
+  fieldTokenizers?: Record<string, TokenizerType>;
+  // Phonetic encodings for individual fields, e.g. { name: 'doublemetaphone' }
+  phonetic?: Record<string, PhoneticEncoding>;
+  normalization?: UnicodeNormalization;
+  filters?: TokenFilterType[];
+  // Language of the text, for language-specific filters such as stemmer
+  language?: Language;
+  // Words left out of the index and out of queries
+  stopwords?: StopwordConfig;
+};
+
+export type StopwordConfig = {
+  // Built-in stopword lists to use
+  languages?: Language[];
+  // Custom stopwords, e.g. words that appear in every record of a dataset
+  words?: string[];
+};
+
+type Tokenizer = (text: string) => Token[];
+type TokenFilter = (tokens: Token[]) => Token[];
+
+// Split on whitespace and ignore case, as ZipTrie has always indexed text
+export const DEFAULT_ANALYZER_CONFIG: Required<AnalyzerConfig> = {
+  tokenizer: 'whitespace',
+  fieldTokenizers: {},
+  phonetic: {},
+  normalization: 'nfkc',
+  filters: ['lowercase'],
+  language: 'english',
+  stopwords: {}
+};
+
+export const UNICODE_NORMALIZATIONS: UnicodeNormalization[] = ['nfkc', 'none'];
+
+/**
+ * Split text into tokens using a regular expression that matches one token
+ */
+function tokenizeMatches(text: string, pattern: RegExp): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    tokens.push({ text: match[0], position: tokens.length, start, end: start + match[0].length });
+  }
+  return tokens;
+}
+
+// Runs of Han, Hiragana, Katakana (including the prolonged sound mark) and Hangul characters
+const CJK_RUN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\u30fc\uff70]+/gu;
+
+// Words of the standard tokenizer: letters and digits, keeping punctuation
+// that joins them within a word (e.g. `t-shirt`, `women's`, `3.5`)
+const STANDARD_WORD = /[\p{L}\p{N}]+(?:['’\-_./][\p{L}\p{N}]+)*/gu;
+
+/**
+ * Split text into overlapping pairs of characters, e.g. `タワー` into `タワ`
+ * and `ワー`. Text of a single character is kept as it is.
+ * @param offset Offset of the text in the original text
+ */
+function bigrams(text: string, offset: number): Array<{ text: string; start: number; end: number }> {
+  // Iterate by code point so characters outside the BMP aren't split in half
+  const chars = Array.from(text);
+  const starts: number[] = [];
+  let start = offset;
+  for (const char of chars) {
+    starts.push(start);
+    start += char.length;
+  }
+
+  if (chars.length === 1) {
+    return [{ text, start: offset, end: offset + text.length }];
+  }
+
+  const result: Array<{ text: string; start: number; end: number }> = [];
+  for (let index = 0; index < chars.length - 1; index++) {
+    const pair = chars[index] + chars[index + 1];
+    result.push({ text: pair, start: starts[index], end: starts[index] + pair.length });
+  }
+  return result;
+}
+
+/**
+ * Split the runs of CJK characters in tokens into bigrams. The rest of a
+ * token is kept as separate words (`iPhone用ケース` into `iPhone`, `用ケ`,
+ * `ケー`, `ース`), and tokens after it are moved along.
+ */
+function splitCjkRuns(tokens: Token[]): Token[] {
+  const result: Token[] = [];
+
+  for (const token of tokens) {
+    if (!token.text.match(CJK_RUN)) {
+      result.push({ ...token, position: result.length });
+      continue;
+    }
+
+    let last = 0;
+    const addWord = (text: string, start: number) => {
+      // Punctuation between CJK runs (e.g. `、`) isn't a word
+      if (!/[\p{L}\p{N}]/u.test(text)) return;
+      result.push({ text, position: result.length, start, end: start + text.length });
+    };
+
+    for (const match of token.text.matchAll(CJK_RUN)) {
+      const index = match.index ?? 0;
+      addWord(token.text.substring(last, index), token.start + last);
+      for (const bigram of bigrams(match[0], token.start + index)) {
+        result.push({ ...bigram, position: result.length });
+      }
+      last = index + match[0].length;
+    }
+    addWord(token.text.substring(last), token.start + last);
+  }
+
+  return result;
+}
+
+const TOKENIZERS: Record<TokenizerType, Tokenizer> = {
+  // Runs of non-whitespace characters
+  whitespace: text => splitCjkRuns(tokenizeMatches(text, /\S+/g)),
+
+  // Words of letters and digits (see STANDARD_WORD)
+  standard: text => splitCjkRuns(tokenizeMatches(text, STANDARD_WORD)),
+
+  // Bigrams of every word, whatever its script - for fields in languages
+  // written without spaces that aren't detected as CJK (e.g. Thai). Combining
+  // marks such as Thai vowel signs are part of the word.
+  bigram: text => tokenizeMatches(text, /[\p{L}\p{M}\p{N}]+/gu).flatMap(word =>
+    bigrams(word.text, word.start)
+  ).map((bigram, position) => ({ ...bigram, position }))
+};
+
+/**
+ * Split a word into parts at punctuation, lower-to-upper case changes and
+ * letter/digit boundaries, e.g. `PowerShot-SX70` into `Power`, `Shot`, `SX`, `70`
+ */
+function splitWordParts(text: string): Array<{ text: string; offset: number }> {
+  const pattern = /\p{Lu}+(?!\p{Ll})|\p{Lu}?\p{Ll}+|\p{L}+|\p{N}+/gu;
+  return Array.from(text.matchAll(pattern), match => ({ text: match[0], offset: match.index ?? 0 }));
+}
+
+// Letters with strokes, which NFD doesn't decompose into a base letter and an accent
+const STROKE_FOLDING: Record<string, string> = {
+  'ø': 'o', 'Ø': 'O', 'ł': 'l', 'Ł': 'L', 'đ': 'd', 'Đ': 'D', 'ħ': 'h', 'Ħ': 'H'
+};
+
+// Ligatures and letters that are written out as two letters
+const LIGATURE_FOLDING: Record<string, string> = {
+  'ß': 'ss', 'ẞ': 'SS', 'æ': 'ae', 'Æ': 'AE', 'œ': 'oe', 'Œ': 'OE', 'ĳ': 'ij', 'Ĳ': 'IJ',
+  'þ': 'th', 'Þ': 'TH', 'ﬀ': 'ff', 'ﬁ': 'fi', 'ﬂ': 'fl', 'ﬃ': 'ffi', 'ﬄ': 'ffl', 'ﬅ': 'st', 'ﬆ': 'st'
+};
+
+/**
+ * Remove accents from Latin, Greek and Cyrillic letters, e.g. `crème` to `creme`.
+ * Only the combining diacritical marks block is stripped - marks in other
+ * scripts (such as Devanagari vowel signs) are part of the letter.
+ */
+function foldAccents(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFC')
+    .replace(/[øØłŁđĐħĦ]/g, char => STROKE_FOLDING[char]);
+}
+
+/**
+ * Write out ligatures as separate letters, e.g. `straße` to `strasse`
+ */
+function foldLigatures(text: string): string {
+  return text.replace(/[ßẞæÆœŒĳĲþÞﬀ-ﬆ]/g, char => LIGATURE_FOLDING[char] ?? char);
+}
+
+// Token filters, created for an analyzer's configuration
+const TOKEN_FILTERS: Record<TokenFilterType, (config: Required<AnalyzerConfig>) => TokenFilter> = {
+  lowercase: () => tokens => tokens.map(token => ({ ...token, text: token.text.toLowerCase() })),
+
+  accentfolding: () => tokens => tokens.map(token => ({ ...token, text: foldAccents(token.text) })),
+
+  ligaturefolding: () => tokens => tokens.map(token => ({ ...token, text: foldLigatures(token.text) })),
+
+  // Both of the above, so `Crème Brûlée` and `Straße` match plain ASCII queries
+  asciifolding: () => tokens => tokens.map(token => ({ ...token, text: foldLigatures(foldAccents(token.text)) })),
+
+  // Strip punctuation from the start and end of tokens, e.g. `(red),` to `red`
+  punctuation: () => tokens => tokens.flatMap(token => {
+    const leading = token.text.match(/^[^\p{L}\p{N}]*/u)?.[0].length ?? 0;
+    const trailing = token.text.match(/[^\p{L}\p{N}]*$/u)?.[0].length ?? 0;
+    if (leading >= token.text.length) return [];
+
+    return [{
+      ...token,
+      text: token.text.substring(leading, token.text.length - trailing),
+      start: token.start + leading,
+      end: token.end - trailing
+    }];
+  }),
+
+  // Split compound words and SKUs into parts, keeping the parts joined
+  // together as an alternative for the first part. Must run before lowercase
+  // to see case changes.
+  worddelimiter: () => tokens => {
+    const result: Token[] = [];
+    let shift = 0;
+
+    for (const token of tokens) {
+      const position = token.position + shift;
+      const parts = splitWordParts(token.text);
+
+      if (parts.length <= 1) {
+        if (parts.length === 1) {
+          const [part] = parts;
+          const start = token.start + part.offset;
+          result.push({ text: part.text, position, start, end: start + part.text.length });
+        }
+        continue;
+      }
+
+      result.push({ ...token, text: parts.map(part => part.text).join(''), position });
+      parts.forEach((part, index) => {
+        const start = token.start + part.offset;
+        result.push({ text: part.text, position: position + index, start, end: start + part.text.length });
+      });
+      shift += parts.length - 1;
+    }
+
+    return result;
+  },
+
+  // Add the stem of each word in the configured language as an alternative,
+  // e.g. `run` for `running`. Must run after lowercase.
+  stemmer: config => tokens => tokens.flatMap(token => {
+    if (token.kind) return [token];
+    return [token, { ...token, text: stem(token.text, config.language), kind: 'stem' as const }];
+  })
+};
+
+export const TOKENIZER_TYPES = Object.keys(TOKENIZERS) as TokenizerType[];
+export const TOKEN_FILTER_TYPES = Object.keys(TOKEN_FILTERS) as TokenFilterType[];
+
+/**
+ * A tokenizer followed by a chain of token filters
+ */
+export class Analyzer {
+  private config: Required<AnalyzerConfig>;
+  // Tokenizers of fields that don't use the default one, by lowercase field name
+  private fieldTokenizers: Map<string, TokenizerType>;
+  // Phonetic encodings of fields, by lowercase field name
+  private fieldPhonetic: Map<string, PhoneticEncoding>;
+  private filters: TokenFilter[];
+  private stopwords: Set<string>;
+
+  constructor(config: AnalyzerConfig = {}) {
+    this.config = {
+      tokenizer: config.tokenizer ?? DEFAULT_ANALYZER_CONFIG.tokenizer,
+      fieldTokenizers: config.fieldTokenizers ?? DEFAULT_ANALYZER_CONFIG.fieldTokenizers,
+      phonetic: config.phonetic ?? DEFAULT_ANALYZER_CONFIG.phonetic,
+      normalization: config.normalization ?? DEFAULT_ANALYZER_CONFIG.normalization,
+      filters: config.filters ?? DEFAULT_ANALYZER_CONFIG.filters,
+      language: config.language ?? DEFAULT_ANALYZER_CONFIG.language,
+      stopwords: config.stopwords ?? DEFAULT_ANALYZER_CONFIG.stopwords
+    };
+    this.fieldTokenizers = new Map(
+      Object.entries(this.config.fieldTokenizers).map(([field, tokenizer]) => [field.toLowerCase(), tokenizer])
+    );
+    this.fieldPhonetic = new Map(
+      Object.entries(this.config.phonetic).map(([field, encoding]) => [field.toLowerCase(), encoding])
+    );
+    this.filters = this.config.filters.map(filter => TOKEN_FILTERS[filter](this.config));
+
+    // Stopwords go through the same filters as the text, so `The` is removed
+    // when tokens are lower cased and `über` matches `uber` after folding
+    const { languages = [], words = [] } = this.config.stopwords;
+    this.stopwords = new Set(
+      [...languages.flatMap(language => STOPWORDS[language]), ...words]
+        .map(word => this.normalize(word))
+        .filter(word => word.length > 0)
+    );
+  }
+
+  /**
+   * Get the configuration the analyzer was built from
+   */
+  getConfig(): Required<AnalyzerConfig> {
+    return this.config;
+  }
+
+  /**
+   * Get the tokenizer used for a field's values, or the default tokenizer
+   */
+  getTokenizerType(field?: string): TokenizerType {
+    return (field && this.fieldTokenizers.get(field.toLowerCase())) || this.config.tokenizer;
+  }
+
+  /**
+   * Get the phonetic encoding of a field, if it has one
+   */
+  getPhoneticEncoding(field?: string): PhoneticEncoding | undefined {
+    return field ? this.fieldPhonetic.get(field.toLowerCase()) : undefined;
+  }
+
+  /**
+   * Whether some fields are analyzed differently from the others (with their
+   * own tokenizer or a phonetic encoding)
+   */
+  hasFieldAnalysis(): boolean {
+    return this.fieldTokenizers.size > 0 || this.fieldPhonetic.size > 0;
+  }
+
+  /**
+   * Key that is the same for fields whose text is analyzed the same way
+   */
+  getFieldAnalysisKey(field: string): string {
+    return `${this.getTokenizerType(field)}:${this.getPhoneticEncoding(field) ?? ''}`;
+  }
+
+  /**
+   * Turn text into the tokens that are indexed or looked up
+   * @param field The field the text belongs to, for fields with their own
+   * tokenizer or phonetic encoding
+   */
+  analyze(text: string, field?: string): Token[] {
+    let tokens = this.normalizeUnicode(TOKENIZERS[this.getTokenizerType(field)](text));
+    for (const filter of this.filters) {
+      tokens = filter(tokens);
+    }
+
+    const encoding = this.getPhoneticEncoding(field);
+    if (encoding) {
+      tokens = this.addPhoneticKeys(tokens, encoding);
+    }
+
+    return this.removeStopwords(tokens);
+  }
+
+  /**
+   * Add the phonetic keys of each word as derived tokens at its position
+   */
+  private addPhoneticKeys(tokens: Token[], encoding: PhoneticEncoding): Token[] {
+    return tokens.flatMap(token => {
+      if (token.kind) return [token];
+      const keys = phoneticKeys(token.text, encoding).map(key => ({ ...token, text: key, kind: 'phonetic' as const }));
+      return [token, ...keys];
+    });
+  }
+
+  /**
+   * Run the token filters over text as a single token, without splitting it
+   * into words. Used to follow a query down the trie for visualization.
+   */
+  normalize(text: string): string {
+    let tokens = this.normalizeUnicode([{ text, position: 0, start: 0, end: text.length }]);
+    for (const filter of this.filters) {
+      tokens = filter(tokens);
+    }
+    const word = tokens.find(token => !token.kind);
+    return word ? word.text : '';
+  }
+
+  /**
+   * Check whether a normalized word is one of the analyzer's stopwords
+   */
+  isStopword(word: string): boolean {
+    return this.stopwords.has(word);
+  }
+
+  /**
+   * Remove stopwords along with the forms derived from them (which share
+   * their position and offsets). Positions aren't renumbered.
+   */
+  private removeStopwords(tokens: Token[]): Token[] {
+    if (this.stopwords.size === 0) return tokens;
+
+    const removed = new Set<string>();
+    for (const token of tokens) {
+      if (!token.kind && this.stopwords.has(token.text)) {
+        removed.add(`${token.position}:${token.start}:${token.end}`);
+      }
+    }
+    if (removed.size === 0) return tokens;
+
+    return tokens.filter(token => !removed.has(`${token.position}:${token.start}:${token.end}`));
+  }
+
+  /**
+   * Apply the configured Unicode normalisation to each token. Tokens are
+   * normalised after tokenizing so their offsets still point into the original text.
+   */
+  private normalizeUnicode(tokens: Token[]): Token[] {
+    if (this.config.normalization === 'none') return tokens;
+    return tokens.map(token => ({ ...token, text: token.text.normalize('NFKC') }));
+  }
+}
+
+/**
+ * Group tokens by position, in position order. Each group holds the
+ * alternatives for one word, without duplicates.
+ */
+export function groupByPosition(tokens: Token[]): Array<{ position: number; tokens: Token[] }> {
+  const groups = new Map<number, Token[]>();
+  for (const token of tokens) {
+    const group = groups.get(token.position);
+    if (!group) {
+      groups.set(token.position, [token]);
+    } else if (!group.some(other => other.text === token.text && other.kind === token.kind)) {
+      group.push(token);
+    }
+  }
+
+  return Array.from(groups, ([position, group]) => ({ position, tokens: group }))
+    .sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Key identifying a token's text and kind, e.g. for comparing tokens of a
+ * phrase with the tokens of a field value
+ */
+export function tokenKey(token: Token): string {
+  return token.kind ? `${token.kind}:${token.text}` : token.text;
+}
+
+/**
+ * Check that an analyzer configuration only names known tokenizers and filters.
+ * Returns an error message, or null if the configuration is valid.
+ */
+export function validateAnalyzerConfig(config: unknown): string | null {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return 'analyzer must be an object with a tokenizer and a list of filters';
+  }
+
+  const { tokenizer, fieldTokenizers, phonetic, normalization, filters, language, stopwords } = config as Record<string, unknown>;
+
+  if (tokenizer !== undefined && !TOKENIZER_TYPES.includes(tokenizer as TokenizerType)) {
+    return `Unknown tokenizer "${tokenizer}". Expected one of: ${TOKENIZER_TYPES.join(', ')}`;
+  }
+
+  if (fieldTokenizers !== undefined) {
+    if (!fieldTokenizers || typeof fieldTokenizers !== 'object' || Array.isArray(fieldTokenizers)) {
+      return 'analyzer.fieldTokenizers must be an object mapping field names to tokenizers';
+    }
+    for (const [field, fieldTokenizer] of Object.entries(fieldTokenizers)) {
+      if (!TOKENIZER_TYPES.includes(fieldTokenizer as TokenizerType)) {
+        return `Unknown tokenizer "${fieldTokenizer}" for field "${field}". Expected one of: ${TOKENIZER_TYPES.join(', ')}`;
+      }
+    }
+  }
+
+  if (phonetic !== undefined) {
+    if (!phonetic || typeof phonetic !== 'object' || Array.isArray(phonetic)) {
+      return 'analyzer.phonetic must be an object mapping field names to phonetic encodings';
+    }
+    for (const [field, encoding] of Object.entries(phonetic)) {
+      if (!PHONETIC_ENCODINGS.includes(encoding as PhoneticEncoding)) {
+        return `Unknown phonetic encoding "${encoding}" for field "${field}". Expected one of: ${PHONETIC_ENCODINGS.join(', ')}`;
+      }
+    }
+  }
+
+  if (language !== undefined && !LANGUAGES.includes(language as Language)) {
+    return `Unknown language "${language}". Expected one of: ${LANGUAGES.join(', ')}`;
+  }
+
+  if (normalization !== undefined && !UNICODE_NORMALIZATIONS.includes(normalization as UnicodeNormalization)) {
+    return `Unknown normalization "${normalization}". Expected one of: ${UNICODE_NORMALIZATIONS.join(', ')}`;
+  }
+
+  if (filters !== undefined) {
+    if (!Array.isArray(filters)) {
+      return 'analyzer.filters must be an array';
+    }
+    const unknownFilter = filters.find(filter => !TOKEN_FILTER_TYPES.includes(filter as TokenFilterType));
+    if (unknownFilter !== undefined) {
+      return `Unknown token filter "${unknownFilter}". Expected any of: ${TOKEN_FILTER_TYPES.join(', ')}`;
+    }
+  }
+
+  if (stopwords !== undefined) {
+    return validateStopwordConfig(stopwords);
+  }
+
+  return null;
+}
+
+/**
+ * Check that a stopword configuration names known languages and lists words as strings.
+ * Returns an error message, or null if the configuration is valid.
+ */
+export function validateStopwordConfig(config: unknown): string | null {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return 'stopwords must be an object with a list of languages and a list of words';
+  }
+
+  const { languages, words } = config as Record<string, unknown>;
+
+  if (languages !== undefined) {
+    if (!Array.isArray(languages)) {
+      return 'stopwords.languages must be an array';
+    }
+    const unknownLanguage = languages.find(language => !LANGUAGES.includes(language as Language));
+    if (unknownLanguage !== undefined) {
+      return `Unknown stopword language "${unknownLanguage}". Expected any of: ${LANGUAGES.join(', ')}`;
+    }
+  }
+
+  if (words !== undefined) {
+    if (!Array.isArray(words) || words.some(word => typeof word !== 'string')) {
+      return 'stopwords.words must be an array of strings';
+    }
+  }
+
+  return null;
+}
@@ -1,4 +1,5 @@
-import { NextRequest } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuth } from '@clerk/nextjs/server';
 import { prisma } from '@/lib/db';
 
 /**
@@ -66,3 +67,40 @@ export async function hasDatasetAccess(userId: string, datasetId: string): Promi
     return false;
   }
 }
+
+/**
+ * Authenticate a request for one of the user's datasets, with an API key or
+ * falling back to Clerk. Returns the user ID, or an error response when the
+ * request isn't authenticated or the dataset isn't the user's.
+ */
+export async function authorizeDatasetRequest(
+  request: NextRequest,
+  datasetId: string
+): Promise<string | NextResponse> {
+  // First try to authenticate with API key
+  const apiKeyUserId = await verifyApiKey(request);
+
+  // If no API key, fall back to Clerk authentication
+  let userId = apiKeyUserId;
+  if (!userId) {
+    const auth = getAuth(request);
+    userId = auth.userId;
+  }
+
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const hasAccess = await hasDatasetAccess(userId, datasetId);
+  if (!hasAccess) {
+    return NextResponse.json(
+      { error: 'Dataset not found' },
+      { status: 404 }
+    );
+  }
+
+  return userId;
+}
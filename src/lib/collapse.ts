@@ -0,0 +1,61 @@
+// src/lib/collapse.ts
+/**
+ * Collapsing search results by a field
+ *
+ * Results that share a value in the collapse field (e.g. the size and colour
+ * variants of a product with the same `parentSku`) are folded into one group,
+ * shown as its first hit in the result order: the highest-scoring one by
+ * default, or the first by the search's sort when it has one. Each group reports how many hits it had and can
+ * carry its top hits. Records without a value in the field stay on their own.
+ */
+
+import { facetValues, recordValue } from './facets';
+
+// Options for collapsing results. Groups follow the result order, so with a
+// sort each group is led by its first hit by the sort rather than by score.
+export type CollapseOptions = {
+  field: string;
+  // Number of each group's top hits to return with it, in result order (none by default)
+  size?: number;
+};
+
+// Most hits returned per group
+export const MAX_COLLAPSE_SIZE = 20;
+
+// Hits that share a collapse value, in result order
+export type HitGroup<T> = {
+  value: string | null;
+  hits: T[];
+};
+
+/**
+ * Get a record's collapse value: its value in the field as a string, the
+ * first element for an array, or null without one
+ */
+export function collapseValue(record: Record<string, unknown>, field: string): string | null {
+  return facetValues(recordValue(record, field))[0] ?? null;
+}
+
+/**
+ * Group sorted hits by their collapse value. Groups come in the order of
+ * their first hit, and hits without a value each get a group of their own.
+ */
+export function groupHits<T>(hits: T[], valueOf: (hit: T) => string | null): HitGroup<T>[] {
+  const groups: HitGroup<T>[] = [];
+  const groupsByValue = new Map<string, HitGroup<T>>();
+
+  for (const hit of hits) {
+    const value = valueOf(hit);
+    const group = value === null ? undefined : groupsByValue.get(value);
+
+    if (group) {
+      group.hits.push(hit);
+    } else {
+      const newGroup = { value, hits: [hit] };
+      groups.push(newGroup);
+      if (value !== null) groupsByValue.set(value, newGroup);
+    }
+  }
+
+  return groups;
+}
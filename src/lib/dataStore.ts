@@ -1,12 +1,95 @@
 import { ZipTrie } from './ziptrie';
+import { DatasetSettings, getDatasetSettings, applyDatasetSettings } from './datasetSettings';
+import { discoverFieldPaths } from './fieldPaths';
+import { prisma } from './db';
 
-// In-memory store for user data
-export const userDataStore: Record<string, {
+// A user's current data, loaded into a trie
+export type UserData = {
   dataId: string;
   trie: ZipTrie;
   rawData: Record<string, unknown>[];
   searchFields: string[];
   returnFields: string[];
+  // Search configuration stored with the dataset (field weights, ...)
+  settings: DatasetSettings;
   lastUpdated: Date;
   totalRecords: number;
-}> = {};
+};
+
+// In-memory store for user data
+export const userDataStore: Record<string, UserData> = {};
+
+/**
+ * Determine the fields a dataset is indexed by: the requested fields, else
+ * the fields its stored trie was indexed with, else the field paths found in
+ * its records
+ */
+export function resolveSearchFields(
+  rawData: Record<string, unknown>[],
+  trieJson: unknown,
+  searchFields: string[] = []
+): string[] {
+  if (searchFields.length > 0) return searchFields;
+
+  // If we have trie data, use the fields from there
+  const trieData = trieJson as Record<string, unknown> | null | undefined;
+  if (trieData?.fields && Array.isArray(trieData.fields) && trieData.fields.length > 0) {
+    return trieData.fields as string[];
+  }
+
+  // Otherwise use the field paths found in the records
+  return discoverFieldPaths(rawData);
+}
+
+/**
+ * Load a dataset's records into a new trie and keep it in memory as the
+ * user's current data. Returns null if the dataset doesn't exist.
+ * @param searchFields Fields to index; defaults to the fields the dataset was
+ * indexed with, or else the field paths found in its records
+ */
+export async function loadUserData(
+  userId: string,
+  datasetId: string,
+  searchFields: string[] = []
+): Promise<UserData | null> {
+  // Fetch the dataset with its products
+  const dataset = await prisma.dataset.findUnique({
+    where: { id: datasetId },
+    include: {
+      products: true,
+      trie: true
+    }
+  });
+
+  if (!dataset) return null;
+
+  console.log(`Found dataset with ${dataset.products.length} products`);
+
+  // Extract the data from the products
+  const rawData = dataset.products.map(product => product.data as Record<string, unknown>);
+
+  // Determine which fields to use for search
+  const fieldsToUse = resolveSearchFields(rawData, dataset.trie?.trieJson, searchFields);
+
+  console.log('Using search fields:', fieldsToUse);
+
+  // Create a new ZipTrie and load the data
+  const trie = new ZipTrie();
+  const settings = getDatasetSettings(dataset.trie?.trieJson);
+  applyDatasetSettings(trie, settings);
+  console.log(`Loading ${rawData.length} items with fields:`, fieldsToUse);
+  trie.loadData(rawData, fieldsToUse);
+
+  userDataStore[userId] = {
+    dataId: datasetId,
+    trie,
+    rawData,
+    searchFields: fieldsToUse,
+    returnFields: fieldsToUse,
+    settings,
+    lastUpdated: new Date(),
+    totalRecords: rawData.length
+  };
+
+  return userDataStore[userId];
+}
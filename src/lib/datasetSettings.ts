@@ -0,0 +1,63 @@
+// src/lib/datasetSettings.ts
+/**
+ * Per-dataset search configuration
+ *
+ * Settings are kept in the dataset's Trie record, under the `settings` key of
+ * `trieJson` next to the serialized trie and its field list, so they survive
+ * server restarts and apply whenever the dataset's trie is rebuilt. Reading
+ * and applying settings works in the browser too; storing them is in
+ * datasetSettingsStore.ts.
+ */
+
+import { ZipTrie } from './ziptrie';
+import { Analyzer, AnalyzerConfig } from './analyzer';
+
+export type DatasetSettings = {
+  // Score multiplier per field, e.g. { title: 3, description: 1 }
+  fieldWeights?: Record<string, number>;
+  // Tokenizer and token filters used for both indexing and queries
+  analyzer?: AnalyzerConfig;
+  // Synonym rules queries are expanded with, e.g. ['tv, television', 'iphone => apple phone']
+  synonyms?: string[];
+};
+
+/**
+ * Read the settings stored in a dataset's trie JSON
+ */
+export function getDatasetSettings(trieJson: unknown): DatasetSettings {
+  if (!trieJson || typeof trieJson !== 'object') return {};
+
+  const settings = (trieJson as Record<string, unknown>).settings;
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) return {};
+
+  return settings as DatasetSettings;
+}
+
+/**
+ * Apply a dataset's settings to a trie. Call before loading data so the
+ * dataset's analyzer is used for indexing; an imported trie must have been
+ * imported with the same analyzer.
+ */
+export function applyDatasetSettings(trie: ZipTrie, settings: DatasetSettings): void {
+  trie.setFieldWeights(settings.fieldWeights ?? {});
+  trie.setAnalyzer(new Analyzer(settings.analyzer));
+  trie.setSynonyms(settings.synonyms ?? []);
+}
+
+/**
+ * Check that field weights are an object of positive numbers.
+ * Returns an error message, or null if the weights are valid.
+ */
+export function validateFieldWeights(fieldWeights: unknown): string | null {
+  if (!fieldWeights || typeof fieldWeights !== 'object' || Array.isArray(fieldWeights)) {
+    return 'fieldWeights must be an object mapping field names to numbers';
+  }
+
+  for (const [field, weight] of Object.entries(fieldWeights)) {
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight <= 0) {
+      return `Weight for field "${field}" must be a positive number`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,50 @@
+// src/lib/datasetSettingsStore.ts
+/**
+ * Loading and saving per-dataset settings in the database. Kept apart from
+ * datasetSettings.ts so the browser can apply settings without Prisma.
+ */
+
+import { Prisma } from '../generated/prisma';
+import { prisma } from '@/lib/db';
+import { DatasetSettings, getDatasetSettings } from './datasetSettings';
+import { SerializedTrieNode } from './ziptrieExport';
+
+/**
+ * Load a dataset's stored settings from the database
+ */
+export async function loadDatasetSettings(datasetId: string): Promise<DatasetSettings> {
+  const trie = await prisma.trie.findUnique({
+    where: { datasetId },
+    select: { trieJson: true }
+  });
+  return getDatasetSettings(trie?.trieJson);
+}
+
+/**
+ * Merge changes into a dataset's stored settings and return the result
+ * @param serializedTrie A trie rebuilt with the new settings, replacing the stored one
+ */
+export async function updateDatasetSettings(
+  datasetId: string,
+  changes: Partial<DatasetSettings>,
+  serializedTrie?: SerializedTrieNode
+): Promise<DatasetSettings> {
+  const trie = await prisma.trie.findUnique({ where: { datasetId } });
+  const trieJson = (trie?.trieJson && typeof trie.trieJson === 'object' ? trie.trieJson : {}) as Record<string, unknown>;
+
+  const settings: DatasetSettings = { ...getDatasetSettings(trieJson), ...changes };
+  const updatedJson = JSON.parse(JSON.stringify({
+    ...trieJson,
+    ...(serializedTrie ? { trie: serializedTrie } : {}),
+    settings
+  })) as Prisma.InputJsonValue;
+
+  await prisma.trie.upsert({
+    where: { datasetId },
+    update: { trieJson: updatedJson },
+    create: { datasetId, trieJson: updatedJson }
+  });
+
+  console.log(`Updated settings for dataset ${datasetId}:`, settings);
+  return settings;
+}
@@ -0,0 +1,81 @@
+// src/lib/facets.ts
+/**
+ * Facet counts and facet value filters
+ *
+ * A facet is a field whose distinct values are listed with the number of
+ * matching documents that have each value, e.g. the brands in a storefront
+ * sidebar. Values are compared as strings, exactly as they appear in the
+ * records; a field holding an array counts each of its elements.
+ */
+
+import { fieldPathValues } from './fieldPaths';
+
+// A facet value and the number of matching documents with it
+export type FacetCount = {
+  value: string;
+  count: number;
+};
+
+// Default number of values returned per facet
+export const DEFAULT_FACET_SIZE = 10;
+
+/**
+ * Get a record's value for a field, ignoring the case of the field name. A
+ * nested field path (e.g. `specs.color` or `tags[]`) gives its value, or an
+ * array when it holds several.
+ */
+export function recordValue(record: Record<string, unknown>, field: string): unknown {
+  if (field in record) return record[field];
+
+  const lowerField = field.toLowerCase();
+  const key = Object.keys(record).find(name => name.toLowerCase() === lowerField);
+  if (key !== undefined) return record[key];
+
+  const values = fieldPathValues(record, field);
+  if (values.length === 0) return undefined;
+  return values.length === 1 ? values[0] : values;
+}
+
+/**
+ * The facet values of a field value: each element of an array, as strings,
+ * leaving out empty values and objects
+ */
+export function facetValues(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  const result: string[] = [];
+
+  for (const item of values) {
+    if (item === null || item === undefined || typeof item === 'object') continue;
+
+    const text = String(item);
+    if (text !== '' && !result.includes(text)) result.push(text);
+  }
+
+  return result;
+}
+
+/**
+ * Check whether a record has any of the given values in a field
+ */
+export function hasFacetValue(record: Record<string, unknown>, field: string, values: Array<string | number | boolean>): boolean {
+  const recordValues = facetValues(recordValue(record, field));
+  return values.some(value => recordValues.includes(String(value)));
+}
+
+/**
+ * Count the values of a field across records, most common first (ties in
+ * value order), keeping the top `size`
+ */
+export function countFacetValues(records: Iterable<Record<string, unknown>>, field: string, size: number = DEFAULT_FACET_SIZE): FacetCount[] {
+  const counts = new Map<string, number>();
+
+  for (const record of records) {
+    for (const value of facetValues(recordValue(record, field))) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, size);
+}
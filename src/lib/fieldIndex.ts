@@ -0,0 +1,227 @@
+// src/lib/fieldIndex.ts
+/**
+ * Typed indexes of numeric and date fields, for range filters
+ *
+ * The trie only holds words, so `price < 50` can't be answered from it. Each
+ * field whose values are numbers or ISO 8601 dates also gets a typed index:
+ * the values sorted in ascending order next to their document IDs, so a
+ * range is found with two binary searches.
+ */
+
+// Types of values that can be filtered by range
+export type FieldType = 'number' | 'date';
+
+// Bounds of a range filter; dates are ISO 8601 strings, e.g. `2026-01-01`
+export type RangeBounds = {
+  gt?: number | string;
+  gte?: number | string;
+  lt?: number | string;
+  lte?: number | string;
+};
+
+// Filters applied to search results, on top of the text query
+export type SearchFilter = {
+  // Numeric or date ranges by field, e.g. { price: { gte: 10, lte: 50 } }
+  range?: Record<string, RangeBounds>;
+  // Exact field values by field, e.g. selected facet values { brand: ['Nike', 'Adidas'] }.
+  // A document must have one of the values of each field.
+  terms?: Record<string, Array<string | number | boolean>>;
+};
+
+export const RANGE_OPERATORS = ['gt', 'gte', 'lt', 'lte'] as const;
+
+// Dates such as `2026-01-01`, `2026-01-01T09:30` or `2026-01-01T09:30:00.000Z`
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Check whether a string is an ISO 8601 date
+ */
+export function isIsoDate(value: string): boolean {
+  return ISO_DATE.test(value) && !isNaN(Date.parse(value));
+}
+
+/**
+ * The type and sortable value of a field value, or null if it can't be
+ * filtered by range. Dates are compared as timestamps.
+ */
+export function typedValue(value: unknown): { type: FieldType; value: number } | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return { type: 'number', value };
+  }
+  if (value instanceof Date && !isNaN(value.getTime())) {
+    return { type: 'date', value: value.getTime() };
+  }
+  if (typeof value === 'string' && isIsoDate(value.trim())) {
+    return { type: 'date', value: Date.parse(value.trim()) };
+  }
+  return null;
+}
+
+/**
+ * Check whether a value can be used as a range bound: a number, a numeric
+ * string or an ISO 8601 date
+ */
+export function isRangeBound(value: unknown): boolean {
+  if (typeof value === 'number') return Number.isFinite(value);
+  if (typeof value !== 'string') return false;
+  return isIsoDate(value) || (value.trim() !== '' && Number.isFinite(Number(value)));
+}
+
+/**
+ * Sorted values of one numeric or date field
+ */
+export class TypedFieldIndex {
+  readonly type: FieldType;
+  private values: number[];
+  private docIds: number[];
+  // Values are added in document order and sorted on first use
+  private sorted: boolean;
+
+  constructor(type: FieldType) {
+    this.type = type;
+    this.values = [];
+    this.docIds = [];
+    this.sorted = true;
+  }
+
+  /**
+   * Add a document's value. A document may have several (e.g. from an array).
+   */
+  add(docId: number, value: number): void {
+    this.values.push(value);
+    this.docIds.push(docId);
+    this.sorted = false;
+  }
+
+  /**
+   * Number of values indexed
+   */
+  get size(): number {
+    return this.values.length;
+  }
+
+  /**
+   * Find the documents whose value is within the bounds, as sorted document IDs
+   */
+  range(bounds: RangeBounds): number[] {
+    this.sort();
+
+    let start = 0;
+    let end = this.values.length;
+
+    if (bounds.gte !== undefined) start = Math.max(start, this.lowerBound(this.boundValue(bounds.gte)));
+    if (bounds.gt !== undefined) start = Math.max(start, this.upperBound(this.boundValue(bounds.gt)));
+    if (bounds.lte !== undefined) end = Math.min(end, this.upperBound(this.boundValue(bounds.lte)));
+    if (bounds.lt !== undefined) end = Math.min(end, this.lowerBound(this.boundValue(bounds.lt)));
+
+    if (start >= end) return [];
+
+    // A document with several values in range is listed once
+    const docIds = this.docIds.slice(start, end).sort((a, b) => a - b);
+    return docIds.filter((docId, index) => index === 0 || docId !== docIds[index - 1]);
+  }
+
+  /**
+   * Turn a bound into a value comparable with the field's values. Bounds
+   * that can't be compared are NaN, which matches nothing.
+   */
+  private boundValue(bound: number | string): number {
+    if (typeof bound === 'number') return bound;
+    if (this.type === 'date') return isIsoDate(bound) ? Date.parse(bound) : NaN;
+    return bound.trim() === '' ? NaN : Number(bound);
+  }
+
+  /**
+   * Sort the values, keeping each document ID next to its value
+   */
+  private sort(): void {
+    if (this.sorted) return;
+
+    const order = this.values.map((_, index) => index).sort((a, b) => this.values[a] - this.values[b]);
+    this.values = order.map(index => this.values[index]);
+    this.docIds = order.map(index => this.docIds[index]);
+    this.sorted = true;
+  }
+
+  // Index of the first value >= the given value (NaN gives the end)
+  private lowerBound(value: number): number {
+    if (isNaN(value)) return this.values.length;
+
+    let low = 0;
+    let high = this.values.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (this.values[middle] < value) low = middle + 1;
+      else high = middle;
+    }
+    return low;
+  }
+
+  // Index of the first value > the given value (NaN gives the end)
+  private upperBound(value: number): number {
+    if (isNaN(value)) return this.values.length;
+
+    let low = 0;
+    let high = this.values.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (this.values[middle] <= value) low = middle + 1;
+      else high = middle;
+    }
+    return low;
+  }
+}
+
+/**
+ * Check that a search filter only uses known operators with valid bounds.
+ * Returns an error message, or null if the filter is valid.
+ */
+export function validateSearchFilter(filter: unknown): string | null {
+  if (!filter || typeof filter !== 'object' || Array.isArray(filter)) {
+    return 'filter must be an object, e.g. { "range": { "price": { "gte": 10, "lte": 50 } } }';
+  }
+
+  const { range, terms, ...rest } = filter as Record<string, unknown>;
+
+  const unknownKey = Object.keys(rest)[0];
+  if (unknownKey !== undefined) {
+    return `Unknown filter "${unknownKey}". Expected: range, terms`;
+  }
+
+  if (range !== undefined) {
+    if (!range || typeof range !== 'object' || Array.isArray(range)) {
+      return 'filter.range must be an object mapping field names to bounds';
+    }
+
+    for (const [field, bounds] of Object.entries(range)) {
+      if (!bounds || typeof bounds !== 'object' || Array.isArray(bounds)) {
+        return `Range for field "${field}" must be an object with any of: ${RANGE_OPERATORS.join(', ')}`;
+      }
+      for (const [operator, bound] of Object.entries(bounds)) {
+        if (!(RANGE_OPERATORS as readonly string[]).includes(operator)) {
+          return `Unknown range operator "${operator}" for field "${field}". Expected any of: ${RANGE_OPERATORS.join(', ')}`;
+        }
+        if (!isRangeBound(bound)) {
+          return `Range bound "${operator}" for field "${field}" must be a number or an ISO 8601 date`;
+        }
+      }
+    }
+  }
+
+  if (terms !== undefined) {
+    if (!terms || typeof terms !== 'object' || Array.isArray(terms)) {
+      return 'filter.terms must be an object mapping field names to lists of values';
+    }
+
+    for (const [field, values] of Object.entries(terms)) {
+      if (!Array.isArray(values) || values.length === 0) {
+        return `Terms for field "${field}" must be a non-empty list of values`;
+      }
+      if (values.some(value => !['string', 'number', 'boolean'].includes(typeof value))) {
+        return `Terms for field "${field}" must be strings, numbers or booleans`;
+      }
+    }
+  }
+
+  return null;
+}
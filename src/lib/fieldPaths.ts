@@ -0,0 +1,151 @@
+// src/lib/fieldPaths.ts
+/**
+ * Field paths into nested records
+ *
+ * A field path names values inside nested JSON: `specs.color` is the `color`
+ * key of the `specs` object, `tags[]` each element of the `tags` array, and
+ * `variants[].sku` the `sku` of each variant. Arrays are stepped into whether
+ * or not the path marks them, so `tags` reads the same values as `tags[]`.
+ * Keys are matched without regard to case, like field names elsewhere. The
+ * values at a path are the strings, numbers and booleans found there; objects
+ * left at the end of a path aren't values.
+ */
+
+// A primitive value found at a field path
+export type FieldValue = string | number | boolean;
+
+// Marks a path segment as an array
+const ARRAY_MARKER = '[]';
+
+// Separator between the values of a path when shown as one piece of text
+export const FIELD_VALUE_SEPARATOR = ', ';
+
+// Most records looked at when discovering the fields of a dataset
+export const FIELD_DISCOVERY_SAMPLE = 100;
+
+/**
+ * Get an object's value for a key, ignoring the case of the key
+ */
+function keyValue(object: Record<string, unknown>, key: string): unknown {
+  if (key in object) return object[key];
+
+  const lowerKey = key.toLowerCase();
+  const match = Object.keys(object).find(name => name.toLowerCase() === lowerKey);
+  return match === undefined ? undefined : object[match];
+}
+
+/**
+ * Collect the primitive values reached by following the path segments from a value
+ */
+function collectValues(value: unknown, segments: string[], values: FieldValue[]): void {
+  if (value === null || value === undefined) return;
+
+  if (Array.isArray(value)) {
+    for (const element of value) collectValues(element, segments, values);
+    return;
+  }
+
+  if (typeof value === 'object') {
+    if (segments.length === 0) return;
+    collectValues(keyValue(value as Record<string, unknown>, segments[0]), segments.slice(1), values);
+    return;
+  }
+
+  if (segments.length > 0 || value === '') return;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    values.push(value);
+  }
+}
+
+/**
+ * Normalize a field path for comparison: lowercase, without array markers
+ */
+export function normalizeFieldPath(path: string): string {
+  return path.split(ARRAY_MARKER).join('').toLowerCase();
+}
+
+/**
+ * Check whether two field names refer to the same values
+ */
+export function sameFieldPath(a: string, b: string): boolean {
+  return a === b || normalizeFieldPath(a) === normalizeFieldPath(b);
+}
+
+/**
+ * Get the values of a record at a field path, each array element as its own
+ * value. A key that itself contains dots (e.g. a CSV column `unit.price`) is
+ * used as is.
+ */
+export function fieldPathValues(record: Record<string, unknown>, path: string): FieldValue[] {
+  const values: FieldValue[] = [];
+
+  const direct = keyValue(record, path);
+  if (direct !== undefined) {
+    collectValues(direct, [], values);
+    return values;
+  }
+
+  const segments = path.split('.').map(segment =>
+    segment.endsWith(ARRAY_MARKER) ? segment.slice(0, -ARRAY_MARKER.length) : segment
+  );
+  collectValues(record, segments, values);
+  return values;
+}
+
+/**
+ * Get the values of a record at a field path as one piece of text
+ */
+export function fieldPathText(record: Record<string, unknown>, path: string): string {
+  return fieldPathValues(record, path).join(FIELD_VALUE_SEPARATOR);
+}
+
+/**
+ * Visit every leaf of a value with its field path. Leaves are anything but
+ * arrays and objects, including null.
+ */
+function visitLeaves(value: unknown, path: string, visit: (path: string, value: unknown) => void): void {
+  if (Array.isArray(value)) {
+    for (const element of value) visitLeaves(element, path + ARRAY_MARKER, visit);
+    return;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      visitLeaves(child, path ? `${path}.${key}` : key, visit);
+    }
+    return;
+  }
+
+  if (path) visit(path, value);
+}
+
+/**
+ * Get every primitive value of a record with its field path, e.g.
+ * `['specs.color', 'red']` and `['tags[]', 'sale']`
+ */
+export function recordFieldValues(record: Record<string, unknown>): Array<[string, FieldValue]> {
+  const entries: Array<[string, FieldValue]> = [];
+
+  visitLeaves(record, '', (path, value) => {
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      entries.push([path, value]);
+    }
+  });
+
+  return entries;
+}
+
+/**
+ * Discover the field paths of a dataset from a sample of its records, in the
+ * order they first appear. Flat records give their keys; nested objects give
+ * dotted paths and arrays of values a `[]` path.
+ */
+export function discoverFieldPaths(records: Record<string, unknown>[], sampleSize: number = FIELD_DISCOVERY_SAMPLE): string[] {
+  const paths = new Set<string>();
+
+  for (const record of records.slice(0, sampleSize)) {
+    visitLeaves(record, '', path => paths.add(path));
+  }
+
+  return Array.from(paths);
+}
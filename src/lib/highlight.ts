@@ -0,0 +1,364 @@
+// src/lib/highlight.ts
+/**
+ * Highlighting of query matches in search results
+ *
+ * The terms of a query are analyzed the same way as at search time and
+ * compared with the analyzed words of each returned record's fields, so a
+ * highlight marks the words the record was found by: completions of a prefix,
+ * stems, near matches when fuzzy, synonyms, and words matching wildcards or
+ * regular expressions. Each highlighted field gets
+ * the character offsets of its matches and a snippet with the matches
+ * wrapped in tags; long values are cut down to a snippet around the first match.
+ */
+
+import { QueryNode } from './queryParser';
+import { Analyzer, Token, groupByPosition } from './analyzer';
+import { FuzzyOptions, MatchMode } from './ziptrie';
+import { FIELD_VALUE_SEPARATOR, fieldPathValues, sameFieldPath } from './fieldPaths';
+import { Automaton, PatternType, compilePattern } from './patterns';
+
+// Options for highlighting
+export type HighlightOptions = {
+  // Fields to highlight; defaults to the searched fields
+  fields?: string[];
+  // Tags around each match in snippets
+  preTag?: string;
+  postTag?: string;
+  // Longest snippet, in characters, before the value is cut down around the first match
+  snippetLength?: number;
+};
+
+// Character offsets of a match in a field value; end is exclusive
+export type HighlightSpan = {
+  start: number;
+  end: number;
+};
+
+// Matches in one field of a result
+export type FieldHighlight = {
+  matches: HighlightSpan[];
+  // HTML-escaped value (or part of it) with the matches wrapped in the tags
+  snippet: string;
+};
+
+export const DEFAULT_HIGHLIGHT_OPTIONS: Required<Omit<HighlightOptions, 'fields'>> = {
+  preTag: '<mark>',
+  postTag: '</mark>',
+  snippetLength: 150
+};
+
+// How query terms were matched, so highlights agree with the search
+export type HighlightMatching = {
+  matchMode?: MatchMode;
+  fuzzy?: boolean | FuzzyOptions;
+  phonetic?: boolean;
+};
+
+// A query term to highlight
+type HighlightTerm = {
+  text: string;
+  field?: string;
+  // Phrases only match whole words, next to each other
+  phrase: boolean;
+  // Wildcards and regular expressions match indexed words against the pattern
+  pattern?: PatternType;
+};
+
+// A query term prepared for the fields it applies to
+type FieldTerm = {
+  term: HighlightTerm;
+  tokens: Token[];
+  automaton?: Automaton;
+};
+
+// Upper bound on fuzzy edits, as in the trie
+const MAX_FUZZY_EDITS = 2;
+
+/**
+ * Collect the terms of a query that a result can be found by. Terms under a
+ * NOT are left out, since results never contain them.
+ */
+function queryTerms(node: QueryNode): HighlightTerm[] {
+  switch (node.type) {
+    case 'term':
+      return [{ text: node.value, field: node.field, phrase: false }];
+
+    case 'phrase':
+      return [{ text: node.value, field: node.field, phrase: true }];
+
+    case 'wildcard':
+    case 'regex':
+      return [{ text: node.value, field: node.field, phrase: false, pattern: node.type }];
+
+    case 'and':
+    case 'or':
+      return node.children.flatMap(child => queryTerms(child));
+
+    case 'not':
+    case 'range':
+      return [];
+  }
+}
+
+/**
+ * Smallest edit distance between a query and any prefix of a word, like the
+ * trie's fuzzy search, which matches words starting with a near match
+ */
+export function prefixEditDistance(query: string, word: string, transpositions: boolean = false): number {
+  const queryChars = Array.from(query);
+  const wordChars = Array.from(word);
+
+  // Distances between each prefix of the query and the word so far
+  let rowBefore: number[] = [];
+  let row = queryChars.map((_, index) => index + 1);
+  row.unshift(0);
+  let best = row[queryChars.length];
+
+  for (let i = 1; i <= wordChars.length; i++) {
+    const nextRow = [i];
+    for (let j = 1; j <= queryChars.length; j++) {
+      const cost = queryChars[j - 1] === wordChars[i - 1] ? 0 : 1;
+      let distance = Math.min(nextRow[j - 1] + 1, row[j] + 1, row[j - 1] + cost);
+      if (
+        transpositions && i > 1 && j > 1 &&
+        queryChars[j - 1] === wordChars[i - 2] && queryChars[j - 2] === wordChars[i - 1]
+      ) {
+        distance = Math.min(distance, rowBefore[j - 2] + 1);
+      }
+      nextRow.push(distance);
+    }
+    rowBefore = row;
+    row = nextRow;
+    best = Math.min(best, row[queryChars.length]);
+  }
+
+  return best;
+}
+
+/**
+ * Escape text for use in HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Sort spans and merge those that overlap or touch
+ */
+export function mergeSpans(spans: HighlightSpan[]): HighlightSpan[] {
+  const sorted = [...spans].sort((a, b) => a.start - b.start || a.end - b.end);
+  const merged: HighlightSpan[] = [];
+
+  for (const span of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Render a value with its matches wrapped in tags. A value longer than the
+ * snippet length is cut to a window with the first match about a third of
+ * the way in, without splitting words, and marked with ellipses.
+ */
+export function buildSnippet(
+  text: string,
+  spans: HighlightSpan[],
+  options: Required<Omit<HighlightOptions, 'fields'>> = DEFAULT_HIGHLIGHT_OPTIONS
+): string {
+  let start = 0;
+  let end = text.length;
+
+  if (text.length > options.snippetLength) {
+    const first = spans[0] ?? { start: 0, end: 0 };
+    start = Math.max(0, Math.min(first.start - Math.floor(options.snippetLength / 3), text.length - options.snippetLength));
+    end = Math.min(text.length, start + options.snippetLength);
+
+    // Move the edges to word boundaries, keeping the first match inside
+    if (start > 0) {
+      const space = text.slice(start, first.start).search(/\s/);
+      if (space !== -1) start += space + 1;
+    }
+    if (end < text.length) {
+      const space = text.slice(Math.max(start, first.end), end).search(/\s\S*$/);
+      if (space !== -1) end = Math.max(start, first.end) + space;
+    }
+  }
+
+  let snippet = start > 0 ? '…' : '';
+  let position = start;
+
+  for (const span of spans) {
+    if (span.end <= start || span.start >= end) continue;
+
+    const spanStart = Math.max(span.start, start);
+    const spanEnd = Math.min(span.end, end);
+    snippet += escapeHtml(text.slice(position, spanStart));
+    snippet += options.preTag + escapeHtml(text.slice(spanStart, spanEnd)) + options.postTag;
+    position = spanEnd;
+  }
+
+  snippet += escapeHtml(text.slice(position, end));
+  if (end < text.length) snippet += '…';
+
+  return snippet;
+}
+
+/**
+ * Finds the matches of a query's terms in records
+ */
+export class Highlighter {
+  private analyzer: Analyzer;
+  private terms: HighlightTerm[];
+  private matching: HighlightMatching;
+  private options: Required<Omit<HighlightOptions, 'fields'>>;
+  // Analyzed query terms by field, since fields may be analyzed differently
+  private termTokens: Map<string, FieldTerm[]>;
+
+  /**
+   * @param analyzer The analyzer of the trie that was searched
+   * @param query The query as evaluated, after synonym expansion
+   */
+  constructor(analyzer: Analyzer, query: QueryNode | null, matching: HighlightMatching = {}, options: HighlightOptions = {}) {
+    this.analyzer = analyzer;
+    this.terms = query ? queryTerms(query) : [];
+    this.matching = matching;
+    this.options = {
+      preTag: options.preTag ?? DEFAULT_HIGHLIGHT_OPTIONS.preTag,
+      postTag: options.postTag ?? DEFAULT_HIGHLIGHT_OPTIONS.postTag,
+      snippetLength: options.snippetLength ?? DEFAULT_HIGHLIGHT_OPTIONS.snippetLength
+    };
+    this.termTokens = new Map();
+  }
+
+  /**
+   * Highlight the matches in the given fields of a record. Fields without
+   * matches are left out. A field path with several values (e.g. array
+   * elements) is highlighted in its values joined by a comma.
+   */
+  highlight(record: Record<string, unknown>, fields: string[]): Record<string, FieldHighlight> {
+    const highlights: Record<string, FieldHighlight> = {};
+    if (this.terms.length === 0) return highlights;
+
+    for (const field of fields) {
+      const values = fieldPathValues(record, field).map(value => String(value));
+      if (values.length === 0) continue;
+
+      const text = values.join(FIELD_VALUE_SEPARATOR);
+      const terms = this.fieldTerms(field);
+      const spans: HighlightSpan[] = [];
+
+      // Each value is analyzed on its own, as when indexed, with offsets moved to its place in the text
+      let offset = 0;
+      for (const value of values) {
+        const tokens = this.analyzer.analyze(value, field);
+
+        const matched = tokens.filter(token => this.matchesTerms(token, terms.filter(({ term }) => !term.phrase)));
+        for (const { term, tokens: phraseTokens } of terms) {
+          if (term.phrase) matched.push(...this.matchPhrase(tokens, phraseTokens));
+        }
+
+        spans.push(...matched.map(token => ({ start: offset + token.start, end: offset + token.end })));
+        offset += value.length + FIELD_VALUE_SEPARATOR.length;
+      }
+
+      if (spans.length > 0) {
+        const merged = mergeSpans(spans);
+        highlights[field] = {
+          matches: merged,
+          snippet: buildSnippet(text, merged, this.options)
+        };
+      }
+    }
+
+    return highlights;
+  }
+
+  /**
+   * Check whether a token of a field value matches any of the query terms
+   */
+  private matchesTerms(token: Token, terms: FieldTerm[]): boolean {
+    // Phonetic keys only count when phonetic matching was asked for
+    if (token.kind === 'phonetic' && !this.matching.phonetic) return false;
+
+    // Patterns match indexed words; derived forms (e.g. stems) are matched whole
+    return terms.some(({ tokens, automaton }) =>
+      automaton
+        ? !token.kind && automaton.matches(token.text)
+        : tokens.some(queryToken => queryToken.kind === token.kind && this.matchesToken(queryToken.text, token.text, Boolean(token.kind)))
+    );
+  }
+
+  /**
+   * Find the tokens of a field value where a phrase occurs: at consecutive
+   * positions, each matching the phrase's word there exactly (or by stem)
+   */
+  private matchPhrase(tokens: Token[], phraseTokens: Token[]): Token[] {
+    const groups = groupByPosition(phraseTokens.filter(token => token.kind !== 'phonetic'));
+    if (groups.length === 0) return [];
+
+    const positions = new Map<number, Token[]>();
+    for (const token of tokens) {
+      const atPosition = positions.get(token.position) ?? [];
+      atPosition.push(token);
+      positions.set(token.position, atPosition);
+    }
+
+    const matched: Token[] = [];
+    for (const start of positions.keys()) {
+      const occurrence = groups.map(group =>
+        (positions.get(start + group.position - groups[0].position) ?? []).filter(token =>
+          group.tokens.some(phraseToken => phraseToken.kind === token.kind && phraseToken.text === token.text)
+        )
+      );
+      if (occurrence.every(words => words.length > 0)) matched.push(...occurrence.flat());
+    }
+
+    return matched;
+  }
+
+  /**
+   * Compare a query word with a word of a field value the way the search did
+   */
+  private matchesToken(query: string, word: string, exact: boolean): boolean {
+    if (exact || this.matching.matchMode === 'exact') return query === word;
+
+    if (this.matching.fuzzy) {
+      const fuzzy = this.matching.fuzzy === true ? {} : this.matching.fuzzy;
+      const maxEdits = Math.max(0, Math.min(fuzzy.maxEdits ?? 1, MAX_FUZZY_EDITS, query.length - 1));
+      if (prefixEditDistance(query, word, fuzzy.transpositions ?? false) <= maxEdits) return true;
+    }
+
+    if (this.matching.matchMode === 'infix') return word.includes(query);
+    return word.startsWith(query);
+  }
+
+  /**
+   * Query terms that apply to a field, analyzed for it
+   */
+  private fieldTerms(field: string): FieldTerm[] {
+    const key = field.toLowerCase();
+    let terms = this.termTokens.get(key);
+
+    if (!terms) {
+      terms = this.terms
+        .filter(term => term.field === undefined || sameFieldPath(term.field, field))
+        .map((term): FieldTerm => term.pattern
+          ? { term, tokens: [], automaton: compilePattern(term.text, term.pattern, text => this.analyzer.normalize(text)) }
+          : { term, tokens: this.analyzer.analyze(term.text, field) });
+      this.termTokens.set(key, terms);
+    }
+
+    return terms;
+  }
+}
@@ -0,0 +1,8 @@
+// src/lib/languages.ts
+/**
+ * Languages with language-specific text analysis (stemming and stopwords)
+ */
+
+export type Language = 'english' | 'french' | 'german' | 'spanish';
+
+export const LANGUAGES: Language[] = ['english', 'french', 'german', 'spanish'];
@@ -0,0 +1,66 @@
+// src/lib/pagination.ts
+/**
+ * Cursors for paging through search results
+ *
+ * A cursor is an opaque string handed out with a page of results that
+ * fetches the next page. It records where the next page starts and a
+ * fingerprint of the search it belongs to, so a cursor can't be reused
+ * with a different query, filter or sort by mistake.
+ *
+ * Cursors are offset based, not search-after keys: every page runs the
+ * search again and cuts the page out at the offset, so the cost of a page
+ * grows with its depth like it does for `offset`, and records added or
+ * removed between requests shift the following pages.
+ */
+
+// What a cursor holds: the offset of the next page and the search fingerprint
+type CursorData = {
+  o: number;
+  h: string;
+};
+
+/**
+ * Fingerprint a search, from anything that changes which results it
+ * returns or their order. FNV-1a, so cursors stay short.
+ */
+export function searchFingerprint(search: unknown): string {
+  const text = JSON.stringify(search);
+  let hash = 0x811c9dc5;
+
+  for (let index = 0; index < text.length; index++) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Create the cursor of the page starting at an offset
+ */
+export function encodeCursor(offset: number, fingerprint: string): string {
+  const data: CursorData = { o: offset, h: fingerprint };
+  return Buffer.from(JSON.stringify(data)).toString('base64url');
+}
+
+/**
+ * Get the offset a cursor points at. Returns an error message instead for a
+ * malformed cursor or one from a different search.
+ */
+export function decodeCursor(cursor: string, fingerprint: string): number | string {
+  let data: CursorData;
+  try {
+    data = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+  } catch {
+    return 'Invalid cursor';
+  }
+
+  if (!data || typeof data !== 'object' || !Number.isInteger(data.o) || data.o < 0) {
+    return 'Invalid cursor';
+  }
+  if (data.h !== fingerprint) {
+    return 'The cursor belongs to a different search. Repeat the query, filter and sort the cursor was returned for';
+  }
+
+  return data.o;
+}
@@ -0,0 +1,503 @@
+// src/lib/patterns.ts
+/**
+ * Wildcard and regular expression patterns for term queries
+ *
+ * A pattern is compiled into a small automaton (an NFA) that reads a word one
+ * character at a time, so the trie can be walked with it: a branch is left as
+ * soon as no state survives its edge label, and a word matches when the
+ * automaton accepts at its end. Patterns always match whole indexed words.
+ *
+ * Wildcards: `*` matches any run of characters, `?` a single character, and
+ * `\` makes the next character literal.
+ *
+ * Regular expressions support literals, `.`, classes (`[a-z]`, `[^0-9]`),
+ * `\d`, `\w`, `\s` and their negations, groups, `|`, and the quantifiers
+ * `*`, `+`, `?`, `{n}`, `{n,}` and `{n,m}`. `^` and `$` are allowed at the
+ * ends and change nothing. There are no backreferences or lookarounds, so
+ * matching never backtracks.
+ */
+
+export type PatternType = 'wildcard' | 'regex';
+
+// Limits on how much work a pattern may cause
+export type PatternLimits = {
+  // Most distinct words a pattern may match
+  maxExpansions?: number;
+  // Longest a pattern may spend walking the trie, in milliseconds
+  timeoutMs?: number;
+};
+
+export const DEFAULT_PATTERN_LIMITS: Required<PatternLimits> = {
+  maxExpansions: 1000,
+  timeoutMs: 200
+};
+
+// Longest pattern accepted, in characters
+export const MAX_PATTERN_LENGTH = 256;
+
+// Most states an automaton may have, which bounds `{n,m}` repeats and nesting
+const MAX_STATES = 2000;
+
+// Largest count allowed in `{n,m}`
+const MAX_REPEAT = 100;
+
+/**
+ * Error thrown when a pattern cannot be compiled.
+ * `position` is the character offset in the pattern where the problem was found.
+ */
+export class PatternError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'PatternError';
+    this.position = position;
+  }
+}
+
+/**
+ * Error thrown when matching a pattern goes over its limits
+ */
+export class PatternLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PatternLimitError';
+  }
+}
+
+type CharTest = (char: string) => boolean;
+
+// Syntax tree of a pattern
+type PatternNode =
+  | { type: 'char'; test: CharTest }
+  | { type: 'sequence'; items: PatternNode[] }
+  | { type: 'alternation'; options: PatternNode[] }
+  | { type: 'repeat'; item: PatternNode; min: number; max: number };
+
+// A state either reads a character passing its test and moves to `next[0]`,
+// or (without a test) moves to all of `next` without reading anything
+type State = {
+  test?: CharTest;
+  next: number[];
+};
+
+const anyChar: CharTest = () => true;
+
+const CLASS_ESCAPES: Record<string, CharTest> = {
+  d: char => /\d/.test(char),
+  D: char => !/\d/.test(char),
+  w: char => /\w/.test(char),
+  W: char => !/\w/.test(char),
+  s: char => /\s/.test(char),
+  S: char => !/\s/.test(char)
+};
+
+/**
+ * A compiled pattern
+ */
+export class Automaton {
+  private states: State[];
+  private start: number;
+  private accept: number;
+
+  constructor(states: State[], start: number, accept: number) {
+    this.states = states;
+    this.start = start;
+    this.accept = accept;
+  }
+
+  /**
+   * The states before any character is read
+   */
+  initial(): number[] {
+    return this.closure([this.start]);
+  }
+
+  /**
+   * The states after reading a character. An empty list means no word
+   * continuing this way can match.
+   */
+  step(states: number[], char: string): number[] {
+    const next: number[] = [];
+    for (const index of states) {
+      const state = this.states[index];
+      if (state.test && state.test(char)) next.push(state.next[0]);
+    }
+    return this.closure(next);
+  }
+
+  /**
+   * Check whether the characters read so far form a match
+   */
+  accepts(states: number[]): boolean {
+    return states.includes(this.accept);
+  }
+
+  /**
+   * Check whether a whole word matches
+   */
+  matches(word: string): boolean {
+    let states = this.initial();
+    for (const char of word) {
+      states = this.step(states, char);
+      if (states.length === 0) return false;
+    }
+    return this.accepts(states);
+  }
+
+  /**
+   * Add every state reachable without reading a character, as a sorted list
+   */
+  private closure(states: number[]): number[] {
+    const reached = new Set<number>();
+    const pending = [...states];
+
+    while (pending.length > 0) {
+      const index = pending.pop() as number;
+      if (reached.has(index)) continue;
+      reached.add(index);
+
+      const state = this.states[index];
+      if (!state.test) pending.push(...state.next);
+    }
+
+    return Array.from(reached).sort((a, b) => a - b);
+  }
+}
+
+/**
+ * Match a literal character, as the analyzer would index it
+ */
+function literal(char: string, normalize: (text: string) => string): PatternNode {
+  const normalized = Array.from(normalize(char) || char);
+  const items = normalized.map((normalizedChar): PatternNode => ({ type: 'char', test: c => c === normalizedChar }));
+  return items.length === 1 ? items[0] : { type: 'sequence', items };
+}
+
+/**
+ * Parse a wildcard pattern
+ */
+function parseWildcard(chars: string[], normalize: (text: string) => string): PatternNode {
+  const items: PatternNode[] = [];
+
+  for (let index = 0; index < chars.length; index++) {
+    const char = chars[index];
+
+    if (char === '*') {
+      // A run of stars means the same as one
+      const previous = items[items.length - 1];
+      if (!previous || previous.type !== 'repeat') {
+        items.push({ type: 'repeat', item: { type: 'char', test: anyChar }, min: 0, max: Infinity });
+      }
+    } else if (char === '?') {
+      items.push({ type: 'char', test: anyChar });
+    } else if (char === '\\' && index + 1 < chars.length) {
+      index++;
+      items.push(literal(chars[index], normalize));
+    } else {
+      items.push(literal(char, normalize));
+    }
+  }
+
+  return { type: 'sequence', items };
+}
+
+/**
+ * Recursive descent parser for the supported regular expression syntax
+ */
+class RegexParser {
+  private chars: string[];
+  private index: number;
+  private normalize: (text: string) => string;
+
+  constructor(chars: string[], normalize: (text: string) => string) {
+    this.chars = chars;
+    this.index = 0;
+    this.normalize = normalize;
+  }
+
+  parse(): PatternNode {
+    // Matches are always whole words, so anchors at the ends change nothing
+    if (this.chars[0] === '^') this.index++;
+    const end = this.chars.length;
+    if (this.chars[end - 1] === '$' && !this.isEscaped(end - 1)) this.chars = this.chars.slice(0, -1);
+
+    const node = this.parseAlternation();
+    if (this.index < this.chars.length) {
+      throw new PatternError('Unmatched closing parenthesis', this.index);
+    }
+    return node;
+  }
+
+  private peek(): string | undefined {
+    return this.chars[this.index];
+  }
+
+  private isEscaped(index: number): boolean {
+    let backslashes = 0;
+    while (index - backslashes - 1 >= 0 && this.chars[index - backslashes - 1] === '\\') backslashes++;
+    return backslashes % 2 === 1;
+  }
+
+  // alternation := sequence (| sequence)*
+  private parseAlternation(): PatternNode {
+    const options = [this.parseSequence()];
+
+    while (this.peek() === '|') {
+      this.index++;
+      options.push(this.parseSequence());
+    }
+
+    return options.length === 1 ? options[0] : { type: 'alternation', options };
+  }
+
+  // sequence := repeat*
+  private parseSequence(): PatternNode {
+    const items: PatternNode[] = [];
+
+    while (this.index < this.chars.length && this.peek() !== '|' && this.peek() !== ')') {
+      items.push(this.parseRepeat());
+    }
+
+    return items.length === 1 ? items[0] : { type: 'sequence', items };
+  }
+
+  // repeat := atom quantifier?
+  private parseRepeat(): PatternNode {
+    const item = this.parseAtom();
+    const start = this.index;
+    const char = this.peek();
+    let min: number;
+    let max: number;
+
+    if (char === '*') {
+      [min, max] = [0, Infinity];
+      this.index++;
+    } else if (char === '+') {
+      [min, max] = [1, Infinity];
+      this.index++;
+    } else if (char === '?') {
+      [min, max] = [0, 1];
+      this.index++;
+    } else {
+      const bounds = char === '{' ? this.readBounds() : null;
+      if (!bounds) return item;
+      [min, max] = bounds;
+    }
+
+    // Lazy quantifiers match the same whole words
+    if (this.peek() === '?') this.index++;
+
+    if (this.peek() && '*+?'.includes(this.peek() as string)) {
+      throw new PatternError('Nothing to repeat', this.index);
+    }
+    if (max < min) {
+      throw new PatternError('Numbers out of order in {} quantifier', start);
+    }
+    if (min > MAX_REPEAT || (max !== Infinity && max > MAX_REPEAT)) {
+      throw new PatternError(`Repeat counts above ${MAX_REPEAT} are not supported`, start);
+    }
+
+    return { type: 'repeat', item, min, max };
+  }
+
+  /**
+   * Read a `{n}`, `{n,}` or `{n,m}` quantifier. Anything else starting with
+   * `{` is a literal brace.
+   */
+  private readBounds(): [number, number] | null {
+    const rest = this.chars.slice(this.index, this.index + 16).join('');
+    const match = /^\{(\d+)(,(\d*))?\}/.exec(rest);
+    if (!match) return null;
+
+    this.index += match[0].length;
+    const min = Number(match[1]);
+    const max = match[2] === undefined ? min : match[3] === '' ? Infinity : Number(match[3]);
+    return [min, max];
+  }
+
+  private parseAtom(): PatternNode {
+    const start = this.index;
+    const char = this.chars[this.index++];
+
+    switch (char) {
+      case '(': {
+        if (this.peek() === '?') {
+          if (this.chars[this.index + 1] !== ':') {
+            throw new PatternError('Lookarounds and named groups are not supported', start);
+          }
+          this.index += 2;
+        }
+
+        const node = this.parseAlternation();
+        if (this.peek() !== ')') {
+          throw new PatternError('Unterminated group: missing closing parenthesis', start);
+        }
+        this.index++;
+        return node;
+      }
+
+      case '[':
+        return this.parseClass(start);
+
+      case '.':
+        return { type: 'char', test: anyChar };
+
+      case '\\':
+        return this.parseEscape(start);
+
+      case '*':
+      case '+':
+      case '?':
+        throw new PatternError('Nothing to repeat', start);
+
+      case '^':
+      case '$':
+        throw new PatternError('Anchors are only supported at the start and end', start);
+
+      default:
+        return literal(char, this.normalize);
+    }
+  }
+
+  private parseEscape(start: number): PatternNode {
+    const char = this.chars[this.index++];
+    if (char === undefined) {
+      throw new PatternError('Pattern ends with a backslash', start);
+    }
+
+    const classTest = CLASS_ESCAPES[char];
+    if (classTest) return { type: 'char', test: classTest };
+
+    if (/[\p{L}\p{N}]/u.test(char)) {
+      throw new PatternError(`Unsupported escape \\${char}`, start);
+    }
+    return literal(char, this.normalize);
+  }
+
+  /**
+   * Parse a character class such as `[a-z0-9_]` or `[^\d]`. Letters in a
+   * class also match their lower case forms, since words are usually indexed
+   * in lower case.
+   */
+  private parseClass(start: number): PatternNode {
+    const negated = this.peek() === '^';
+    if (negated) this.index++;
+
+    const tests: CharTest[] = [];
+    while (this.peek() !== ']') {
+      if (this.index >= this.chars.length) {
+        throw new PatternError('Unterminated character class: missing ]', start);
+      }
+
+      const memberStart = this.index;
+      let from = this.chars[this.index++];
+      if (from === '\\') {
+        const escaped = this.chars[this.index++];
+        if (escaped === undefined) throw new PatternError('Pattern ends with a backslash', memberStart);
+        if (CLASS_ESCAPES[escaped]) {
+          tests.push(CLASS_ESCAPES[escaped]);
+          continue;
+        }
+        from = escaped;
+      }
+
+      // A range such as `a-z`; a `-` at either end of the class is literal
+      if (this.peek() === '-' && this.chars[this.index + 1] !== undefined && this.chars[this.index + 1] !== ']') {
+        this.index++;
+        let to = this.chars[this.index++];
+        if (to === '\\') to = this.chars[this.index++] ?? '';
+        const [low, high] = [from.codePointAt(0) ?? 0, to.codePointAt(0) ?? 0];
+        if (high < low) {
+          throw new PatternError('Range out of order in character class', memberStart);
+        }
+        tests.push(c => {
+          const code = c.codePointAt(0) ?? -1;
+          return code >= low && code <= high;
+        });
+      } else {
+        const member = from;
+        tests.push(c => c === member);
+      }
+    }
+    this.index++;
+
+    if (tests.length === 0) {
+      throw new PatternError('Empty character class', start);
+    }
+
+    const inClass: CharTest = c => tests.some(test => test(c)) || (c.toUpperCase() !== c && tests.some(test => test(c.toUpperCase())));
+    return { type: 'char', test: negated ? c => !inClass(c) : inClass };
+  }
+}
+
+/**
+ * Build the states of a syntax tree that lead on to `next`, returning the
+ * first state. Built back to front so each piece knows where it continues.
+ */
+function buildStates(node: PatternNode, next: number, states: State[]): number {
+  const addState = (state: State): number => {
+    if (states.length >= MAX_STATES) {
+      throw new PatternError('Pattern is too complex', 0);
+    }
+    states.push(state);
+    return states.length - 1;
+  };
+
+  switch (node.type) {
+    case 'char':
+      return addState({ test: node.test, next: [next] });
+
+    case 'sequence':
+      return node.items.reduceRight((continuation, item) => buildStates(item, continuation, states), next);
+
+    case 'alternation':
+      return addState({ next: node.options.map(option => buildStates(option, next, states)) });
+
+    case 'repeat': {
+      let entry = next;
+
+      if (node.max === Infinity) {
+        // Loop back to a state that either repeats the item or moves on
+        const loop = addState({ next: [] });
+        states[loop].next = [buildStates(node.item, loop, states), next];
+        entry = loop;
+      } else {
+        // Each optional copy either matches the item or skips the rest
+        for (let copy = node.min; copy < node.max; copy++) {
+          entry = addState({ next: [buildStates(node.item, entry, states), entry] });
+        }
+      }
+
+      for (let copy = 0; copy < node.min; copy++) {
+        entry = buildStates(node.item, entry, states);
+      }
+      return entry;
+    }
+  }
+}
+
+/**
+ * Compile a wildcard or regular expression pattern. Literal characters go
+ * through `normalize`, so they can be compared with indexed words (e.g. in
+ * lower case). Throws PatternError for a pattern that can't be compiled.
+ */
+export function compilePattern(
+  pattern: string,
+  type: PatternType,
+  normalize: (text: string) => string = text => text
+): Automaton {
+  const chars = Array.from(pattern);
+  if (chars.length === 0) {
+    throw new PatternError('Empty pattern', 0);
+  }
+  if (chars.length > MAX_PATTERN_LENGTH) {
+    throw new PatternError(`Patterns are limited to ${MAX_PATTERN_LENGTH} characters`, MAX_PATTERN_LENGTH);
+  }
+
+  const tree = type === 'wildcard' ? parseWildcard(chars, normalize) : new RegexParser(chars, normalize).parse();
+
+  const states: State[] = [{ next: [] }];
+  const start = buildStates(tree, 0, states);
+  return new Automaton(states, start, 0);
+}
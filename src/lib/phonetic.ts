@@ -0,0 +1,616 @@
+// src/lib/phonetic.ts
+/**
+ * Phonetic encodings that give words which sound alike the same key, so a
+ * search for "Kathryn" can find "Catherine"
+ *
+ * - soundex: the classic four-character code (first letter plus three digits).
+ *   Simple, but names that start with a different letter never match.
+ * - doublemetaphone: Lawrence Philips' Double Metaphone, which models English
+ *   pronunciation along with common Germanic, Slavic, Romance and other name
+ *   spellings. It gives a primary and an alternate key; both are indexed.
+ *
+ * Only Latin letters are encoded - accents are removed first, and words
+ * without any Latin letters have no key.
+ */
+
+export type PhoneticEncoding = 'soundex' | 'doublemetaphone';
+
+export const PHONETIC_ENCODINGS: PhoneticEncoding[] = ['soundex', 'doublemetaphone'];
+
+// Length of the keys produced by both encodings
+const KEY_LENGTH = 4;
+
+/**
+ * Upper case a word and keep only the letters A-Z, removing accents first
+ */
+function prepare(word: string): string {
+  return word
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z]/g, '');
+}
+
+const SOUNDEX_CODES: Record<string, string> = {
+  B: '1', F: '1', P: '1', V: '1',
+  C: '2', G: '2', J: '2', K: '2', Q: '2', S: '2', X: '2', Z: '2',
+  D: '3', T: '3',
+  L: '4',
+  M: '5', N: '5',
+  R: '6'
+};
+
+/**
+ * American Soundex, e.g. `Robert` and `Rupert` both to `R163`
+ */
+export function soundex(word: string): string {
+  const value = prepare(word);
+  if (!value) return '';
+
+  let key = value[0];
+  let previousCode = SOUNDEX_CODES[value[0]] ?? '';
+
+  for (let index = 1; index < value.length && key.length < KEY_LENGTH; index++) {
+    const char = value[index];
+    const code = SOUNDEX_CODES[char];
+
+    if (code) {
+      if (code !== previousCode) key += code;
+      previousCode = code;
+    } else if (char !== 'H' && char !== 'W') {
+      // Vowels separate letters with the same code; H and W don't
+      previousCode = '';
+    }
+  }
+
+  return key.padEnd(KEY_LENGTH, '0');
+}
+
+/**
+ * Double Metaphone primary and alternate keys, e.g. `Catherine` and
+ * `Kathryn` both to `K0RN` and `KTRN` (`0` stands for `th`)
+ */
+export function doubleMetaphone(word: string): [string, string] {
+  const value = prepare(word);
+  const length = value.length;
+  const last = length - 1;
+
+  let primary = '';
+  let secondary = '';
+  const add = (main: string, alternate: string = main) => {
+    primary += main;
+    secondary += alternate;
+  };
+
+  // Whether any of the strings appear at a position
+  const at = (position: number, ...strings: string[]) =>
+    position >= 0 && strings.some(string => value.startsWith(string, position));
+  const isVowel = (position: number) => position >= 0 && 'AEIOUY'.includes(value[position] ?? '_');
+
+  const isSlavoGermanic = /W|K|CZ|WITZ/.test(value);
+  const isGermanic = at(0, 'VAN ', 'VON ', 'SCH');
+
+  let index = 0;
+
+  // Skip these when at the start of a word
+  if (at(0, 'GN', 'KN', 'PN', 'WR', 'PS')) index++;
+
+  // Initial X is pronounced Z, which maps to S, e.g. `Xavier`
+  if (value[0] === 'X') {
+    add('S');
+    index++;
+  }
+
+  while (index < length && (primary.length < KEY_LENGTH || secondary.length < KEY_LENGTH)) {
+    const char = value[index];
+    const next = value[index + 1];
+
+    switch (char) {
+      case 'A':
+      case 'E':
+      case 'I':
+      case 'O':
+      case 'U':
+      case 'Y':
+        // Vowels are only kept at the start of a word
+        if (index === 0) add('A');
+        index++;
+        break;
+
+      case 'B':
+        // `-mb`, e.g. `dumb`, is handled under M
+        add('P');
+        index += next === 'B' ? 2 : 1;
+        break;
+
+      case 'C':
+        // Various Germanic spellings
+        if (index > 1 && !isVowel(index - 2) && at(index - 1, 'ACH') &&
+          value[index + 2] !== 'I' && (value[index + 2] !== 'E' || at(index - 2, 'BACHER', 'MACHER'))) {
+          add('K');
+          index += 2;
+          break;
+        }
+
+        // Special case `caesar`
+        if (index === 0 && at(index, 'CAESAR')) {
+          add('S');
+          index += 2;
+          break;
+        }
+
+        // Italian `chianti`
+        if (at(index, 'CHIA')) {
+          add('K');
+          index += 2;
+          break;
+        }
+
+        if (next === 'H') {
+          // `michael`
+          if (index > 0 && at(index, 'CHAE')) {
+            add('K', 'X');
+          } else if (index === 0 && (at(index + 1, 'HARAC', 'HARIS') || at(index + 1, 'HOR', 'HYM', 'HIA', 'HEM')) &&
+            !at(0, 'CHORE')) {
+            // Greek roots, e.g. `chemistry`, `chorus`
+            add('K');
+          } else if (isGermanic || at(index - 2, 'ORCHES', 'ARCHIT', 'ORCHID') || at(index + 2, 'T', 'S') ||
+            ((index === 0 || at(index - 1, 'A', 'O', 'U', 'E')) && at(index + 2, 'L', 'R', 'N', 'M', 'B', 'H', 'F', 'V', 'W', ' '))) {
+            // Germanic, Greek or otherwise `ch` for a `kh` sound, e.g. `orchestra`, `orchid`
+            add('K');
+          } else if (index > 0) {
+            if (at(0, 'MC')) {
+              add('K');
+            } else {
+              add('X', 'K');
+            }
+          } else {
+            add('X');
+          }
+          index += 2;
+          break;
+        }
+
+        // `czerny`
+        if (next === 'Z' && !at(index - 2, 'WICZ')) {
+          add('S', 'X');
+          index += 2;
+          break;
+        }
+
+        // `focaccia`
+        if (at(index + 1, 'CIA')) {
+          add('X');
+          index += 3;
+          break;
+        }
+
+        // Double C, but not `McClellan`
+        if (next === 'C' && !(index === 1 && value[0] === 'M')) {
+          // `bellocchio` but not `bacchus`
+          if (at(index + 2, 'I', 'E', 'H') && !at(index + 2, 'HU')) {
+            if ((index === 1 && value[index - 1] === 'A') || at(index - 1, 'UCCEE', 'UCCES')) {
+              // `accident`, `accede`, `succeed`
+              add('KS');
+            } else {
+              // `bacci`, `bertucci` and other Italian
+              add('X');
+            }
+            index += 3;
+          } else {
+            // Pierce's rule
+            add('K');
+            index += 2;
+          }
+          break;
+        }
+
+        if (at(index, 'CK', 'CG', 'CQ')) {
+          add('K');
+          index += 2;
+          break;
+        }
+
+        if (at(index, 'CI', 'CE', 'CY')) {
+          // Italian or English
+          if (at(index, 'CIO', 'CIE', 'CIA')) {
+            add('S', 'X');
+          } else {
+            add('S');
+          }
+          index += 2;
+          break;
+        }
+
+        add('K');
+        // `mac caffrey`, `mac gregor`
+        if (at(index + 1, ' C', ' Q', ' G')) {
+          index += 3;
+        } else if (at(index + 1, 'C', 'K', 'Q') && !at(index + 1, 'CE', 'CI')) {
+          index += 2;
+        } else {
+          index++;
+        }
+        break;
+
+      case 'D':
+        if (next === 'G') {
+          if (at(index + 2, 'I', 'E', 'Y')) {
+            // `edge`
+            add('J');
+            index += 3;
+          } else {
+            // `edgar`
+            add('TK');
+            index += 2;
+          }
+          break;
+        }
+
+        add('T');
+        index += next === 'T' || next === 'D' ? 2 : 1;
+        break;
+
+      case 'F':
+        add('F');
+        index += next === 'F' ? 2 : 1;
+        break;
+
+      case 'G':
+        if (next === 'H') {
+          if (index > 0 && !isVowel(index - 1)) {
+            add('K');
+          } else if (index === 0) {
+            // `ghislane`, `ghiradelli`
+            add(value[index + 2] === 'I' ? 'J' : 'K');
+          } else if ((index > 1 && at(index - 2, 'B', 'H', 'D')) ||
+            (index > 2 && at(index - 3, 'B', 'H', 'D')) ||
+            (index > 3 && at(index - 4, 'B', 'H'))) {
+            // Parker's rule, e.g. `hugh`, `bough`, `broughton`
+          } else if (index > 2 && value[index - 1] === 'U' && at(index - 3, 'C', 'G', 'L', 'R', 'T')) {
+            // `laugh`, `McLaughlin`, `cough`, `rough`, `tough`
+            add('F');
+          } else if (index > 0 && value[index - 1] !== 'I') {
+            add('K');
+          }
+          index += 2;
+          break;
+        }
+
+        if (next === 'N') {
+          if (index === 1 && isVowel(0) && !isSlavoGermanic) {
+            add('KN', 'N');
+          } else if (!at(index + 2, 'EY') && !isSlavoGermanic) {
+            // Not `cagney`
+            add('N', 'KN');
+          } else {
+            add('KN');
+          }
+          index += 2;
+          break;
+        }
+
+        // `tagliaro`
+        if (at(index + 1, 'LI') && !isSlavoGermanic) {
+          add('KL', 'L');
+          index += 2;
+          break;
+        }
+
+        // `-ges-`, `-gep-`, `-gel-`, `-gie-` at the start of a word
+        if (index === 0 && (next === 'Y' || at(index + 1, 'ES', 'EP', 'EB', 'EL', 'EY', 'IB', 'IL', 'IN', 'IE', 'EI', 'ER'))) {
+          add('K', 'J');
+          index += 2;
+          break;
+        }
+
+        // `-ger-`, `-gy-`
+        if ((at(index + 1, 'ER') || next === 'Y') && !at(0, 'DANGER', 'RANGER', 'MANGER') &&
+          !at(index - 1, 'E', 'I') && !at(index - 1, 'RGY', 'OGY')) {
+          add('K', 'J');
+          index += 2;
+          break;
+        }
+
+        // Italian, e.g. `biaggi`
+        if (at(index + 1, 'E', 'I', 'Y') || at(index - 1, 'AGGI', 'OGGI')) {
+          if (isGermanic || at(index + 1, 'ET')) {
+            // Obviously Germanic
+            add('K');
+          } else if (at(index + 1, 'IER ')) {
+            // Always soft with a French ending
+            add('J');
+          } else {
+            add('J', 'K');
+          }
+          index += 2;
+          break;
+        }
+
+        add('K');
+        index += next === 'G' ? 2 : 1;
+        break;
+
+      case 'H':
+        // Only kept at the start of a word or between vowels, before a vowel
+        if ((index === 0 || isVowel(index - 1)) && isVowel(index + 1)) {
+          add('H');
+          index += 2;
+        } else {
+          index++;
+        }
+        break;
+
+      case 'J':
+        // Spanish `jose`, `san jacinto`
+        if (at(index, 'JOSE') || at(0, 'SAN ')) {
+          if ((index === 0 && value[index + 4] === ' ') || at(0, 'SAN ')) {
+            add('H');
+          } else {
+            add('J', 'H');
+          }
+          index++;
+          break;
+        }
+
+        if (index === 0) {
+          // `jankelowicz` may be pronounced `yankelowicz`
+          add('J', 'A');
+        } else if (isVowel(index - 1) && !isSlavoGermanic && (next === 'A' || next === 'O')) {
+          // Spanish, e.g. `bajador`
+          add('J', 'H');
+        } else if (index === last) {
+          add('J', '');
+        } else if (!at(index + 1, 'L', 'T', 'K', 'S', 'N', 'M', 'B', 'Z') && !at(index - 1, 'S', 'K', 'L')) {
+          add('J');
+        }
+        index += next === 'J' ? 2 : 1;
+        break;
+
+      case 'K':
+        add('K');
+        index += next === 'K' ? 2 : 1;
+        break;
+
+      case 'L':
+        if (next === 'L') {
+          // Spanish, e.g. `cabrillo`, `gallegos`
+          if ((index === length - 3 && at(index - 1, 'ILLO', 'ILLA', 'ALLE')) ||
+            ((at(last - 1, 'AS', 'OS') || at(last, 'A', 'O')) && at(index - 1, 'ALLE'))) {
+            add('L', '');
+          } else {
+            add('L');
+          }
+          index += 2;
+          break;
+        }
+
+        add('L');
+        index++;
+        break;
+
+      case 'M':
+        add('M');
+        // `dumb`, `thumb`
+        if ((at(index - 1, 'UMB') && (index + 1 === last || at(index + 2, 'ER'))) || next === 'M') {
+          index += 2;
+        } else {
+          index++;
+        }
+        break;
+
+      case 'N':
+        add('N');
+        index += next === 'N' ? 2 : 1;
+        break;
+
+      case 'P':
+        if (next === 'H') {
+          add('F');
+          index += 2;
+          break;
+        }
+
+        // Also accounts for `campbell`, `raspberry`
+        add('P');
+        index += next === 'P' || next === 'B' ? 2 : 1;
+        break;
+
+      case 'Q':
+        add('K');
+        index += next === 'Q' ? 2 : 1;
+        break;
+
+      case 'R':
+        // French, e.g. `rogier`, but not `hochmeier`
+        if (index === last && !isSlavoGermanic && at(index - 2, 'IE') && !at(index - 4, 'ME', 'MA')) {
+          add('', 'R');
+        } else {
+          add('R');
+        }
+        index += next === 'R' ? 2 : 1;
+        break;
+
+      case 'S':
+        // `island`, `isle`, `carlisle`, `carlysle`
+        if (at(index - 1, 'ISL', 'YSL')) {
+          index++;
+          break;
+        }
+
+        // `sugar-`
+        if (index === 0 && at(index, 'SUGAR')) {
+          add('X', 'S');
+          index++;
+          break;
+        }
+
+        if (next === 'H') {
+          // Germanic
+          if (at(index + 1, 'HEIM', 'HOEK', 'HOLM', 'HOLZ')) {
+            add('S');
+          } else {
+            add('X');
+          }
+          index += 2;
+          break;
+        }
+
+        // Italian and Armenian
+        if (at(index, 'SIO', 'SIA', 'SIAN')) {
+          if (isSlavoGermanic) {
+            add('S');
+          } else {
+            add('S', 'X');
+          }
+          index += 3;
+          break;
+        }
+
+        // German and anglicisations, e.g. `smith` matches `schmidt`, `snider`
+        // matches `schneider`; also `-sz-` in Slavic
+        if ((index === 0 && at(index + 1, 'M', 'N', 'L', 'W')) || next === 'Z') {
+          add('S', 'X');
+          index += next === 'Z' ? 2 : 1;
+          break;
+        }
+
+        if (at(index, 'SC')) {
+          // Schlesinger's rule
+          if (value[index + 2] === 'H') {
+            if (at(index + 3, 'OO', 'ER', 'EN', 'UY', 'ED', 'EM')) {
+              // Dutch, e.g. `school`, `schooner`, or `schermerhorn`, `schenker`
+              if (at(index + 3, 'ER', 'EN')) {
+                add('X', 'SK');
+              } else {
+                add('SK');
+              }
+            } else if (index === 0 && !isVowel(3) && value[3] !== 'W') {
+              add('X', 'S');
+            } else {
+              add('X');
+            }
+          } else if (at(index + 2, 'I', 'E', 'Y')) {
+            add('S');
+          } else {
+            add('SK');
+          }
+          index += 3;
+          break;
+        }
+
+        // French, e.g. `resnais`, `artois`
+        if (index === last && at(index - 2, 'AI', 'OI')) {
+          add('', 'S');
+        } else {
+          add('S');
+        }
+        index += next === 'S' || next === 'Z' ? 2 : 1;
+        break;
+
+      case 'T':
+        if (at(index, 'TION', 'TIA', 'TCH')) {
+          add('X');
+          index += 3;
+          break;
+        }
+
+        if (next === 'H' || at(index, 'TTH')) {
+          // `thomas`, `thames` or Germanic
+          if (at(index + 2, 'OM', 'AM') || isGermanic) {
+            add('T');
+          } else {
+            add('0', 'T');
+          }
+          index += 2;
+          break;
+        }
+
+        add('T');
+        index += next === 'T' || next === 'D' ? 2 : 1;
+        break;
+
+      case 'V':
+        add('F');
+        index += next === 'V' ? 2 : 1;
+        break;
+
+      case 'W':
+        // Can also be in the middle of a word
+        if (at(index, 'WR')) {
+          add('R');
+          index += 2;
+          break;
+        }
+
+        if (index === 0 && (isVowel(index + 1) || at(index, 'WH'))) {
+          // `Wasserman` should match `Vasserman`
+          if (isVowel(index + 1)) {
+            add('A', 'F');
+          } else {
+            add('A');
+          }
+        }
+
+        // `Arnow` should match `Arnoff`
+        if ((index === last && isVowel(index - 1)) || at(index - 1, 'EWSKI', 'EWSKY', 'OWSKI', 'OWSKY') || at(0, 'SCH')) {
+          add('', 'F');
+          index++;
+          break;
+        }
+
+        // Polish, e.g. `filipowicz`
+        if (at(index, 'WICZ', 'WITZ')) {
+          add('TS', 'FX');
+          index += 4;
+          break;
+        }
+
+        index++;
+        break;
+
+      case 'X':
+        // French, e.g. `breaux`
+        if (!(index === last && (at(index - 3, 'IAU', 'EAU') || at(index - 2, 'AU', 'OU')))) {
+          add('KS');
+        }
+        index += next === 'C' || next === 'X' ? 2 : 1;
+        break;
+
+      case 'Z':
+        // Chinese pinyin, e.g. `zhao`
+        if (next === 'H') {
+          add('J');
+          index += 2;
+          break;
+        }
+
+        if (at(index + 1, 'ZO', 'ZI', 'ZA') || (isSlavoGermanic && index > 0 && value[index - 1] !== 'T')) {
+          add('S', 'TS');
+        } else {
+          add('S');
+        }
+        index += next === 'Z' ? 2 : 1;
+        break;
+
+      default:
+        index++;
+    }
+  }
+
+  return [primary.slice(0, KEY_LENGTH), secondary.slice(0, KEY_LENGTH)];
+}
+
+/**
+ * The phonetic keys of a word in an encoding, without duplicates.
+ * Words without Latin letters have none.
+ */
+export function phoneticKeys(word: string, encoding: PhoneticEncoding): string[] {
+  if (encoding === 'soundex') {
+    const key = soundex(word);
+    return key ? [key] : [];
+  }
+
+  const [primary, secondary] = doubleMetaphone(word);
+  return Array.from(new Set([primary, secondary])).filter(key => key.length > 0);
+}
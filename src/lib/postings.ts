@@ -0,0 +1,182 @@
+// src/lib/postings.ts
+/**
+ * Operations on posting lists - lists of document IDs sorted in ascending order.
+ * Scored posting lists carry the score of each match along with its document ID
+ * so boolean queries can combine scores while intersecting or merging lists.
+ */
+
+// Documents containing a word in one field, with how often the word occurs in each
+export type PostingList = {
+  // Sorted document IDs
+  docIds: number[];
+  // Term frequency for the document at the same position in docIds
+  frequencies: number[];
+};
+
+// A document matched by (part of) a query
+export type ScoredPosting = {
+  docId: number;
+  score: number;
+  // Edit distance of the match - 0 unless fuzzy matching was used
+  distance: number;
+};
+
+/**
+ * Count an occurrence of a word in a document, adding the document to the
+ * posting list if it isn't there yet
+ */
+export function addPosting(postings: PostingList, docId: number, count: number = 1): void {
+  const { docIds, frequencies } = postings;
+
+  // Documents are usually indexed in ID order, so appending is the common case
+  const last = docIds.length - 1;
+  if (last < 0 || docIds[last] < docId) {
+    docIds.push(docId);
+    frequencies.push(count);
+    return;
+  }
+
+  if (docIds[last] === docId) {
+    frequencies[last] += count;
+    return;
+  }
+
+  // Otherwise binary search for the insertion point
+  let low = 0;
+  let high = docIds.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (docIds[mid] < docId) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  if (docIds[low] === docId) {
+    frequencies[low] += count;
+  } else {
+    docIds.splice(low, 0, docId);
+    frequencies.splice(low, 0, count);
+  }
+}
+
+/**
+ * Merge two posting lists, adding up the frequencies of documents in both
+ */
+export function mergePostingLists(a: PostingList, b: PostingList): PostingList {
+  const merged: PostingList = { docIds: [], frequencies: [] };
+  let i = 0;
+  let j = 0;
+
+  while (i < a.docIds.length || j < b.docIds.length) {
+    if (j >= b.docIds.length || (i < a.docIds.length && a.docIds[i] < b.docIds[j])) {
+      merged.docIds.push(a.docIds[i]);
+      merged.frequencies.push(a.frequencies[i++]);
+    } else if (i >= a.docIds.length || b.docIds[j] < a.docIds[i]) {
+      merged.docIds.push(b.docIds[j]);
+      merged.frequencies.push(b.frequencies[j++]);
+    } else {
+      merged.docIds.push(a.docIds[i]);
+      merged.frequencies.push(a.frequencies[i++] + b.frequencies[j++]);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Merge two sorted posting lists into a new sorted list without duplicates
+ */
+export function unionPostings(a: number[], b: number[]): number[] {
+  const merged: number[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length || j < b.length) {
+    if (j >= b.length || (i < a.length && a[i] < b[j])) {
+      merged.push(a[i++]);
+    } else if (i >= a.length || b[j] < a[i]) {
+      merged.push(b[j++]);
+    } else {
+      merged.push(a[i++]);
+      j++;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Documents present in both lists. Scores and edit distances are added together.
+ */
+export function intersectScored(a: ScoredPosting[], b: ScoredPosting[]): ScoredPosting[] {
+  const result: ScoredPosting[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i].docId < b[j].docId) {
+      i++;
+    } else if (b[j].docId < a[i].docId) {
+      j++;
+    } else {
+      result.push({
+        docId: a[i].docId,
+        score: a[i].score + b[j].score,
+        distance: a[i].distance + b[j].distance
+      });
+      i++;
+      j++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Documents present in either list. Documents matched by both get the sum of
+ * their scores and the closer of their two edit distances.
+ */
+export function unionScored(a: ScoredPosting[], b: ScoredPosting[]): ScoredPosting[] {
+  const result: ScoredPosting[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length || j < b.length) {
+    if (j >= b.length || (i < a.length && a[i].docId < b[j].docId)) {
+      result.push(a[i++]);
+    } else if (i >= a.length || b[j].docId < a[i].docId) {
+      result.push(b[j++]);
+    } else {
+      result.push({
+        docId: a[i].docId,
+        score: a[i].score + b[j].score,
+        distance: Math.min(a[i].distance, b[j].distance)
+      });
+      i++;
+      j++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Documents in the first list that are not in the second
+ */
+export function differenceScored(a: ScoredPosting[], b: ScoredPosting[]): ScoredPosting[] {
+  const result: ScoredPosting[] = [];
+  let j = 0;
+
+  for (const posting of a) {
+    while (j < b.length && b[j].docId < posting.docId) {
+      j++;
+    }
+    if (j >= b.length || b[j].docId !== posting.docId) {
+      result.push(posting);
+    }
+  }
+
+  return result;
+}
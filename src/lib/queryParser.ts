@@ -0,0 +1,621 @@
+// src/lib/queryParser.ts
+/**
+ * Query parser for the search language accepted by ZipTrie.search
+ *
+ * Supported syntax:
+ * - Terms: `red` (matched according to the search's match mode)
+ * - Phrases: `"running shoe"` (words must appear next to each other, in order)
+ * - Operators: `AND`, `OR`, `NOT` (upper case only; lower case words are terms)
+ * - Exclusion: `-kids` (shorthand for `NOT kids`)
+ * - Grouping: `red AND (shoe OR boot)`
+ * - Field scopes: `brand:nike`, `title:"air max"`, `brand:(nike OR adidas)`.
+ *   With the searchable fields given, any other `word:` is plain text.
+ * - Ranges on numeric and date fields: `price:[10 TO 50]` (inclusive),
+ *   `price:{10 TO 50}` (exclusive), `createdAt:[2026-01-01 TO *]` (open ended),
+ *   `price:<50`, `price:>=10`
+ * - Wildcards: `AB-??-7*` (`?` is one character, `*` any number). A `?`
+ *   ending a term without other wildcards is punctuation and dropped
+ *   (`what?`; write `\?` for a literal one). `5*` is a prefix search.
+ * - Regular expressions: `/^SKU-\d{4}$/`, `sku:/AB-[0-9]+/`. A regex must
+ *   start a term, be non-empty and end the term with its closing slash;
+ *   anything else with slashes, like `http://example.com`, is a plain term.
+ *
+ * Terms next to each other without an operator are combined with AND.
+ * AND binds tighter than OR, so `a b OR c` means `(a AND b) OR c`.
+ */
+
+import { RangeBounds, isRangeBound } from './fieldIndex';
+import { sameFieldPath } from './fieldPaths';
+import { PatternError, PatternType, compilePattern } from './patterns';
+
+// Abstract syntax tree produced by the parser
+export type QueryNode =
+  | { type: 'term'; value: string; field?: string }
+  | { type: 'phrase'; value: string; terms: string[]; field?: string }
+  | { type: 'range'; field: string; range: RangeBounds }
+  | { type: 'wildcard'; value: string; field?: string }
+  | { type: 'regex'; value: string; field?: string }
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+/**
+ * Error thrown when a query cannot be parsed.
+ * `position` is the character offset in the query where the problem was found.
+ */
+export class QueryParseError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'QueryParseError';
+    this.position = position;
+  }
+}
+
+type Token =
+  | { type: 'term'; value: string; position: number }
+  | { type: 'phrase'; value: string; position: number }
+  | { type: 'field'; value: string; position: number }
+  | { type: 'range'; field: string; range: RangeBounds; position: number }
+  | { type: 'regex'; value: string; position: number }
+  | { type: 'and' | 'or' | 'not' | 'lparen' | 'rparen'; position: number };
+
+// A field name followed by a colon at the start of a word, e.g. `brand:`,
+// `specs.color:` or `tags[]:`
+const FIELD_PREFIX = /^([A-Za-z_](?:[\w.\-]|\[\])*):/;
+
+// A field name followed by the opening bracket of a range, e.g. `price:[`
+const RANGE_PREFIX = /^([A-Za-z_](?:[\w.\-]|\[\])*):([[{])/;
+
+// The opening slash of a regular expression, optionally after a field name, e.g. `sku:/`
+const REGEX_PREFIX = /^(?:([A-Za-z_](?:[\w.\-]|\[\])*):)?\//;
+
+// Terms with fewer characters than this besides wildcards are read literally
+// (`?1`, a lone `*`), unless they are a prefix pattern
+const MIN_WILDCARD_LITERALS = 2;
+
+// A wildcard pattern that is only a prefix, e.g. `5*`
+export const PREFIX_PATTERN = /^[^*?\\]+\*+$/;
+
+// Options for parsing a query
+export type ParseOptions = {
+  // Fields that can be searched. When given, `field:` only scopes to one of
+  // these; other prefixes are plain text (`Note: red`, `http://…`)
+  fields?: string[];
+};
+
+// A comparison after a field name, e.g. the `>=10` of `price:>=10`
+const COMPARISON = /^(>=|<=|>|<)(.+)$/;
+
+const COMPARISON_OPERATORS: Record<string, keyof RangeBounds> = {
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte'
+};
+
+/**
+ * Parse a range bound: a number, or a date kept as written. `*` is open ended.
+ */
+function parseBound(bound: string, position: number): number | string | undefined {
+  if (bound === '*') return undefined;
+  if (!isRangeBound(bound)) {
+    throw new QueryParseError(`Invalid range bound "${bound}": expected a number, an ISO 8601 date or *`, position);
+  }
+  const number = Number(bound);
+  return Number.isFinite(number) ? number : bound;
+}
+
+/**
+ * Read a bracketed range such as `[10 TO 50]` or `{2026-01-01 TO *}`
+ * starting at the opening bracket. Square brackets include the bound, curly
+ * brackets exclude it, and they can be mixed.
+ */
+function readRange(query: string, position: number): { range: RangeBounds; end: number } {
+  const close = query.slice(position + 1).search(/[\]}]/);
+  if (close === -1) {
+    throw new QueryParseError('Unterminated range: missing closing bracket', position);
+  }
+  const end = position + 1 + close;
+
+  const bounds = query.substring(position + 1, end).trim().split(/\s+TO\s+/);
+  if (bounds.length !== 2) {
+    throw new QueryParseError('Invalid range: expected [lower TO upper]', position);
+  }
+
+  const range: RangeBounds = {};
+  const lower = parseBound(bounds[0], position + 1);
+  const upper = parseBound(bounds[1], position + 1);
+  if (lower !== undefined) range[query[position] === '[' ? 'gte' : 'gt'] = lower;
+  if (upper !== undefined) range[query[end] === ']' ? 'lte' : 'lt'] = upper;
+
+  return { range, end: end + 1 };
+}
+
+/**
+ * Find the closing slash of a regular expression starting at the opening
+ * slash. Escaped slashes and slashes in character classes don't close it.
+ * Returns -1 unless the expression is non-empty and its closing slash ends
+ * the token (followed by whitespace, `)` or the end of the query), in which
+ * case the text is a plain term instead.
+ */
+function findRegexEnd(query: string, position: number): number {
+  let inClass = false;
+
+  for (let index = position + 1; index < query.length; index++) {
+    const char = query[index];
+    if (char === '\\') {
+      index++;
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === ']') {
+      inClass = false;
+    } else if (char === '/' && !inClass) {
+      const endsToken = index + 1 === query.length || /[\s)]/.test(query[index + 1]);
+      return index > position + 1 && endsToken ? index : -1;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Count the unescaped wildcards of a term and its other characters
+ */
+function countWildcards(value: string): { wildcards: number; literals: number; escapedEnd: boolean } {
+  let wildcards = 0;
+  let literals = 0;
+  let escapedEnd = false;
+
+  for (let index = 0; index < value.length; index++) {
+    if (value[index] === '\\') {
+      literals++;
+      index++;
+      escapedEnd = index >= value.length - 1;
+    } else if (value[index] === '*' || value[index] === '?') {
+      wildcards++;
+      escapedEnd = false;
+    } else {
+      literals++;
+      escapedEnd = false;
+    }
+  }
+
+  return { wildcards, literals, escapedEnd };
+}
+
+/**
+ * Remove a `?` ending a term that has no other wildcards, which is
+ * punctuation (`what?`) rather than a wildcard. `SKU-12??` keeps its
+ * wildcards, and `\?` is a literal question mark.
+ */
+function stripQuestionMark(value: string): string {
+  if (value.length < 2 || !value.endsWith('?')) return value;
+
+  const { wildcards, escapedEnd } = countWildcards(value);
+  return wildcards === 1 && !escapedEnd ? value.slice(0, -1) : value;
+}
+
+/**
+ * Check whether a term is a wildcard pattern: it has an unescaped `*` or `?`
+ * and enough other characters to narrow down what it matches. A prefix
+ * pattern like `a*` is always one, as it is searched as a plain prefix.
+ */
+function isWildcardPattern(value: string): boolean {
+  const { wildcards, literals } = countWildcards(value);
+  if (wildcards === 0) return false;
+
+  return literals >= MIN_WILDCARD_LITERALS || (literals > 0 && PREFIX_PATTERN.test(value));
+}
+
+/**
+ * Check that a wildcard or regular expression compiles, reporting problems
+ * at their place in the query
+ */
+function checkPattern(pattern: string, type: PatternType, position: number): void {
+  try {
+    compilePattern(pattern, type);
+  } catch (error) {
+    if (error instanceof PatternError) {
+      const kind = type === 'regex' ? 'regular expression' : 'wildcard';
+      throw new QueryParseError(`Invalid ${kind}: ${error.message}`, position + error.position);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check whether a `field:` prefix names a field that can be searched
+ */
+function isSearchableField(field: string, options: ParseOptions): boolean {
+  return !options.fields || options.fields.some(searchable => sameFieldPath(searchable, field));
+}
+
+/**
+ * Split a query string into tokens
+ */
+function tokenize(query: string, options: ParseOptions): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < query.length) {
+    const char = query[position];
+
+    // Skip whitespace between tokens
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    if (char === '(') {
+      tokens.push({ type: 'lparen', position });
+      position++;
+      continue;
+    }
+
+    if (char === ')') {
+      tokens.push({ type: 'rparen', position });
+      position++;
+      continue;
+    }
+
+    // Quoted phrase - runs until the closing quote
+    if (char === '"') {
+      const end = query.indexOf('"', position + 1);
+      if (end === -1) {
+        throw new QueryParseError('Unterminated phrase: missing closing quote', position);
+      }
+      tokens.push({ type: 'phrase', value: query.substring(position + 1, end), position });
+      position = end + 1;
+      continue;
+    }
+
+    // A leading minus excludes the following term, phrase or group
+    if (char === '-') {
+      tokens.push({ type: 'not', position });
+      position++;
+      continue;
+    }
+
+    // `field:[lower TO upper]` - the range may contain spaces
+    const rangeMatch = RANGE_PREFIX.exec(query.substring(position));
+    if (rangeMatch) {
+      const { range, end } = readRange(query, position + rangeMatch[1].length + 1);
+      tokens.push({ type: 'range', field: rangeMatch[1], range, position });
+      position = end;
+      continue;
+    }
+
+    // `/regex/`, optionally scoped with a searchable `field:` - may contain
+    // spaces and parentheses. Anything else starting with a slash is a plain term.
+    const regexMatch = REGEX_PREFIX.exec(query.substring(position));
+    const regexField = regexMatch?.[1];
+    if (regexMatch && (!regexField || isSearchableField(regexField, options))) {
+      const open = position + regexMatch[0].length - 1;
+      const close = findRegexEnd(query, open);
+      if (close !== -1) {
+        if (regexField) {
+          tokens.push({ type: 'field', value: regexField, position });
+        }
+        tokens.push({ type: 'regex', value: query.substring(open + 1, close), position: open });
+        position = close + 1;
+        continue;
+      }
+    }
+
+    // Plain word - runs until whitespace, a parenthesis or a quote
+    const start = position;
+    while (position < query.length && !/[\s()"]/.test(query[position])) {
+      position++;
+    }
+    const word = query.substring(start, position);
+
+    // `field:` scopes the term, phrase or group that follows it
+    const fieldMatch = FIELD_PREFIX.exec(word);
+
+    if (word === 'AND') {
+      tokens.push({ type: 'and', position: start });
+    } else if (word === 'OR') {
+      tokens.push({ type: 'or', position: start });
+    } else if (word === 'NOT') {
+      tokens.push({ type: 'not', position: start });
+    } else if (fieldMatch && !word.substring(fieldMatch[0].length).startsWith('/')) {
+      // A scope followed by a slash that didn't start a regex (`http://…`) is
+      // part of the term, so only scopes without one get here
+      const rest = word.substring(fieldMatch[0].length);
+      const comparison = COMPARISON.exec(rest);
+
+      // `price:<50` is a range with a single bound
+      if (comparison) {
+        const bound = parseBound(comparison[2], start + fieldMatch[0].length);
+        const range: RangeBounds = bound === undefined ? {} : { [COMPARISON_OPERATORS[comparison[1]]]: bound };
+        tokens.push({ type: 'range', field: fieldMatch[1], range, position: start });
+        continue;
+      }
+
+      // `Note: red` - a word that isn't a searchable field is plain text, and
+      // its colon punctuation
+      if (!isSearchableField(fieldMatch[1], options)) {
+        tokens.push({ type: 'term', value: rest.length > 0 ? word : fieldMatch[1], position: start });
+        continue;
+      }
+
+      tokens.push({ type: 'field', value: fieldMatch[1], position: start });
+
+      if (rest.length > 0) {
+        tokens.push({ type: 'term', value: rest, position: start + fieldMatch[0].length });
+      }
+    } else {
+      tokens.push({ type: 'term', value: word, position: start });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Restrict every term and phrase in a subtree to a field, unless it already
+ * has a field of its own
+ */
+function scopeToField(node: QueryNode, field: string): QueryNode {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+    case 'wildcard':
+    case 'regex':
+      return node.field ? node : { ...node, field };
+    case 'range':
+      return node;
+    case 'and':
+    case 'or':
+      return { ...node, children: node.children.map(child => scopeToField(child, field)) };
+    case 'not':
+      return { ...node, child: scopeToField(node.child, field) };
+  }
+}
+
+/**
+ * Recursive descent parser over the token list
+ */
+class Parser {
+  private tokens: Token[];
+  private index: number;
+  private queryLength: number;
+
+  constructor(tokens: Token[], queryLength: number) {
+    this.tokens = tokens;
+    this.index = 0;
+    this.queryLength = queryLength;
+  }
+
+  parse(): QueryNode {
+    const node = this.parseOr();
+
+    // Anything left over means there is an unmatched closing parenthesis
+    const leftover = this.peek();
+    if (leftover) {
+      throw new QueryParseError('Unexpected closing parenthesis', leftover.position);
+    }
+
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  // or := and (OR and)*
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+
+    while (this.peek()?.type === 'or') {
+      this.index++;
+      children.push(this.parseAnd());
+    }
+
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  // and := unary ((AND)? unary)*
+  private parseAnd(): QueryNode {
+    const children = [this.parseUnary()];
+
+    while (true) {
+      const token = this.peek();
+      if (!token || token.type === 'or' || token.type === 'rparen') break;
+
+      // AND is optional between operands
+      if (token.type === 'and') {
+        this.index++;
+      }
+      children.push(this.parseUnary());
+    }
+
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  // unary := (NOT | -) unary | primary
+  private parseUnary(): QueryNode {
+    if (this.peek()?.type === 'not') {
+      this.index++;
+      return { type: 'not', child: this.parseUnary() };
+    }
+
+    return this.parsePrimary();
+  }
+
+  // primary := field: primary | ( or ) | phrase | term
+  private parsePrimary(): QueryNode {
+    const token = this.peek();
+
+    if (!token) {
+      throw new QueryParseError('Unexpected end of query: expected a term', this.queryLength);
+    }
+
+    switch (token.type) {
+      case 'field': {
+        this.index++;
+        const next = this.peek();
+        if (!next || (next.type !== 'term' && next.type !== 'phrase' && next.type !== 'regex' && next.type !== 'lparen')) {
+          throw new QueryParseError(`Expected a term after "${token.value}:"`, next ? next.position : this.queryLength);
+        }
+        return scopeToField(this.parsePrimary(), token.value);
+      }
+
+      case 'term': {
+        this.index++;
+        const value = stripQuestionMark(token.value);
+        if (isWildcardPattern(value)) {
+          checkPattern(value, 'wildcard', token.position);
+          return { type: 'wildcard', value };
+        }
+        return { type: 'term', value };
+      }
+
+      case 'regex':
+        this.index++;
+        checkPattern(token.value, 'regex', token.position + 1);
+        return { type: 'regex', value: token.value };
+
+      case 'range':
+        this.index++;
+        return { type: 'range', field: token.field, range: token.range };
+
+      case 'phrase': {
+        this.index++;
+        const terms = token.value.split(/\s+/).filter(term => term.length > 0);
+        if (terms.length === 0) {
+          throw new QueryParseError('Empty phrase', token.position);
+        }
+        return { type: 'phrase', value: token.value, terms };
+      }
+
+      case 'lparen': {
+        this.index++;
+        if (this.peek()?.type === 'rparen') {
+          throw new QueryParseError('Empty group', token.position);
+        }
+
+        const node = this.parseOr();
+
+        if (this.peek()?.type !== 'rparen') {
+          throw new QueryParseError('Unbalanced parenthesis: missing closing parenthesis', token.position);
+        }
+        this.index++;
+        return node;
+      }
+
+      case 'rparen':
+        throw new QueryParseError('Unexpected closing parenthesis', token.position);
+
+      default:
+        throw new QueryParseError(`Unexpected operator ${token.type.toUpperCase()}: expected a term`, token.position);
+    }
+  }
+}
+
+/**
+ * Parse a query string into an AST.
+ * Returns null for a blank query and throws QueryParseError for invalid syntax.
+ */
+export function parseQuery(query: string, options: ParseOptions = {}): QueryNode | null {
+  const tokens = tokenize(query, options);
+  if (tokens.length === 0) return null;
+
+  return new Parser(tokens, query.length).parse();
+}
+
+/**
+ * Get the fields a query compares with ranges, e.g. `price` for `price:<50`
+ */
+export function rangeFields(node: QueryNode): string[] {
+  switch (node.type) {
+    case 'range':
+      return [node.field];
+    case 'and':
+    case 'or':
+      return node.children.flatMap(child => rangeFields(child));
+    case 'not':
+      return rangeFields(node.child);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Write a range's bounds in the query language, e.g. `[10 TO 50}`
+ */
+function formatRange(range: RangeBounds): string {
+  const lower = range.gte ?? range.gt;
+  const upper = range.lte ?? range.lt;
+
+  return (range.gt !== undefined && range.gte === undefined ? '{' : '[') +
+    `${lower ?? '*'} TO ${upper ?? '*'}` +
+    (range.lt !== undefined && range.lte === undefined ? '}' : ']');
+}
+
+/**
+ * Check whether a word is read as a single plain term
+ */
+function readsAsTerm(value: string): boolean {
+  try {
+    const tokens = tokenize(value, {});
+    return tokens.length === 1 && tokens[0].type === 'term' && tokens[0].value === value;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Write a term so that it parses back to the same term. Words that would be
+ * read as operators, exclusions, field scopes or patterns are quoted.
+ */
+function formatTerm(value: string): string {
+  const plain = !value.startsWith('-') &&
+    !/[\s()"]/.test(value) &&
+    stripQuestionMark(value) === value &&
+    !isWildcardPattern(value) &&
+    readsAsTerm(value);
+  return plain ? value : `"${value.replace(/"/g, '')}"`;
+}
+
+/**
+ * Write an AST back out in the query language. The result parses to an
+ * equivalent query, though not necessarily the text it was parsed from
+ * (`a AND b` comes back as `a b`).
+ */
+export function formatQuery(node: QueryNode): string {
+  const scope = (field: string | undefined) => (field ? `${field}:` : '');
+
+  switch (node.type) {
+    case 'term':
+      return scope(node.field) + formatTerm(node.value);
+
+    case 'phrase':
+      return `${scope(node.field)}"${node.value}"`;
+
+    case 'range':
+      return `${node.field}:${formatRange(node.range)}`;
+
+    case 'wildcard':
+      return scope(node.field) + node.value;
+
+    case 'regex':
+      return `${scope(node.field)}/${node.value}/`;
+
+    case 'and':
+      // OR binds looser than AND, so OR operands need parentheses
+      return node.children
+        .map(child => (child.type === 'or' ? `(${formatQuery(child)})` : formatQuery(child)))
+        .join(' ');
+
+    case 'or':
+      return node.children.map(child => formatQuery(child)).join(' OR ');
+
+    case 'not':
+      return node.child.type === 'and' || node.child.type === 'or'
+        ? `-(${formatQuery(node.child)})`
+        : `-${formatQuery(node.child)}`;
+  }
+}
@@ -0,0 +1,79 @@
+// src/lib/sort.ts
+/**
+ * Sorting search results by field values
+ *
+ * A sort is a list of fields with a direction, written `price:asc,createdAt:desc`.
+ * Numbers and ISO 8601 dates are compared by value (so 9 sorts before 10),
+ * other values as text. Records without a value in a field sort after those
+ * with one, whichever the direction. `_score` sorts by relevance.
+ */
+
+import { typedValue } from './fieldIndex';
+import { recordValue } from './facets';
+
+export type SortOrder = 'asc' | 'desc';
+
+export const SORT_ORDERS: SortOrder[] = ['asc', 'desc'];
+
+// Pseudo-field that sorts by relevance score
+export const SCORE_FIELD = '_score';
+
+// One key of a sort
+export type SortField = {
+  field: string;
+  order: SortOrder;
+};
+
+// A record's value in a sort field, ready to compare: typed values as
+// numbers, other values as text, missing values as null
+export type SortValue = number | string | null;
+
+/**
+ * Parse a sort written as `field:order` pairs separated by commas. The order
+ * defaults to ascending, or descending for `_score`. Returns an error
+ * message instead for an invalid sort.
+ */
+export function parseSort(text: string): SortField[] | string {
+  const sort: SortField[] = [];
+
+  for (const part of text.split(',')) {
+    const [field, order, ...rest] = part.trim().split(':').map(piece => piece.trim());
+    if (!field || rest.length > 0) {
+      return `Invalid sort "${part.trim()}". Expected field:asc or field:desc`;
+    }
+
+    const defaultOrder: SortOrder = field === SCORE_FIELD ? 'desc' : 'asc';
+    const sortOrder = (order ? order.toLowerCase() : defaultOrder) as SortOrder;
+    if (!SORT_ORDERS.includes(sortOrder)) {
+      return `Invalid sort order "${order}" for field "${field}". Expected one of: ${SORT_ORDERS.join(', ')}`;
+    }
+
+    sort.push({ field, order: sortOrder });
+  }
+
+  return sort;
+}
+
+/**
+ * Get a record's value in a sort field
+ */
+export function sortValue(record: Record<string, unknown>, field: string): SortValue {
+  const value = recordValue(record, field);
+  if (value === null || value === undefined || value === '') return null;
+
+  const typed = typedValue(value);
+  if (typed) return typed.value;
+
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Compare two sort values in ascending order: numbers before text, and text
+ * without regard to case
+ */
+export function compareSortValues(a: Exclude<SortValue, null>, b: Exclude<SortValue, null>): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'number') return -1;
+  if (typeof b === 'number') return 1;
+  return a.localeCompare(b, undefined, { sensitivity: 'base', numeric: true });
+}
@@ -0,0 +1,263 @@
+// src/lib/stemmer.ts
+/**
+ * Stemmers that reduce inflected words to a common stem, so that a search
+ * for "running" also finds "runs" and "ran"
+ *
+ * English uses the Porter algorithm, preceded by a table of irregular forms
+ * that suffix stripping can't handle. The other languages use light stemmers
+ * that only remove plural, gender and the most common inflection endings -
+ * they conflate fewer forms but rarely merge unrelated words.
+ *
+ * Words are expected in lower case.
+ */
+
+import { Language } from './languages';
+
+// Irregular English inflections mapped to their base form before Porter stemming.
+// Forms that are also common unrelated words (e.g. `saw`, `left`, `lives`) are left
+// out, as are words that only share a meaning (`best` isn't a form of `good`).
+const ENGLISH_IRREGULAR_FORMS: Record<string, string> = {
+  ran: 'run', went: 'go', gone: 'go', was: 'be', were: 'be', been: 'be', is: 'be', are: 'be', am: 'be',
+  has: 'have', had: 'have', did: 'do', done: 'do', does: 'do', made: 'make', said: 'say', paid: 'pay',
+  took: 'take', taken: 'take', gave: 'give', given: 'give', wrote: 'write', written: 'write',
+  drove: 'drive', driven: 'drive', ate: 'eat', eaten: 'eat', seen: 'see', knew: 'know', known: 'know',
+  grew: 'grow', grown: 'grow', threw: 'throw', thrown: 'throw', began: 'begin', begun: 'begin',
+  swam: 'swim', swum: 'swim', sang: 'sing', sung: 'sing', drank: 'drink', drunk: 'drink', sat: 'sit',
+  stood: 'stand', understood: 'understand', held: 'hold', kept: 'keep', slept: 'sleep', lost: 'lose',
+  met: 'meet', found: 'find', built: 'build', sent: 'send', spent: 'spend', fought: 'fight',
+  bought: 'buy', brought: 'bring', thought: 'think', taught: 'teach', caught: 'catch', sold: 'sell',
+  told: 'tell', flew: 'fly', flown: 'fly', wore: 'wear', worn: 'wear', chose: 'choose', chosen: 'choose',
+  broke: 'break', broken: 'break', spoke: 'speak', spoken: 'speak', froze: 'freeze', frozen: 'freeze',
+  rode: 'ride', ridden: 'ride', hid: 'hide', hidden: 'hide', forgot: 'forget', forgotten: 'forget',
+  children: 'child', men: 'man', women: 'woman', people: 'person', mice: 'mouse', feet: 'foot',
+  teeth: 'tooth', geese: 'goose', knives: 'knife', wives: 'wife'
+};
+
+/**
+ * Whether the letter at a position is a consonant in the Porter sense -
+ * `y` is a consonant at the start of a word or after a vowel
+ */
+function isConsonant(word: string, index: number): boolean {
+  const char = word[index];
+  if ('aeiou'.includes(char)) return false;
+  if (char === 'y') return index === 0 || !isConsonant(word, index - 1);
+  return true;
+}
+
+/**
+ * Porter's measure: the number of vowel-consonant sequences in a stem
+ */
+function measure(stem: string): number {
+  let count = 0;
+  let index = 0;
+
+  // Skip leading consonants
+  while (index < stem.length && isConsonant(stem, index)) index++;
+
+  while (index < stem.length) {
+    while (index < stem.length && !isConsonant(stem, index)) index++;
+    if (index >= stem.length) break;
+    while (index < stem.length && isConsonant(stem, index)) index++;
+    count++;
+  }
+
+  return count;
+}
+
+function containsVowel(stem: string): boolean {
+  for (let index = 0; index < stem.length; index++) {
+    if (!isConsonant(stem, index)) return true;
+  }
+  return false;
+}
+
+function endsWithDoubleConsonant(word: string): boolean {
+  const last = word.length - 1;
+  return last > 0 && word[last] === word[last - 1] && isConsonant(word, last);
+}
+
+// Consonant-vowel-consonant ending, where the final consonant isn't w, x or y
+function endsWithCvc(word: string): boolean {
+  const last = word.length - 1;
+  return last >= 2 &&
+    isConsonant(word, last - 2) &&
+    !isConsonant(word, last - 1) &&
+    isConsonant(word, last) &&
+    !'wxy'.includes(word[last]);
+}
+
+/**
+ * Replace the longest matching suffix from a list of rules when the
+ * remaining stem satisfies the condition. Only the longest match is tried.
+ */
+function replaceSuffix(
+  word: string,
+  rules: Array<[string, string]>,
+  condition: (stem: string, suffix: string) => boolean
+): string {
+  let match: [string, string] | null = null;
+  for (const rule of rules) {
+    if (word.endsWith(rule[0]) && (!match || rule[0].length > match[0].length)) {
+      match = rule;
+    }
+  }
+  if (!match) return word;
+
+  const stem = word.slice(0, word.length - match[0].length);
+  return condition(stem, match[0]) ? stem + match[1] : word;
+}
+
+const PORTER_STEP2: Array<[string, string]> = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'],
+  ['abli', 'able'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'],
+  ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'],
+  ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble'], ['logi', 'log']
+];
+
+const PORTER_STEP3: Array<[string, string]> = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', '']
+];
+
+const PORTER_STEP4: Array<[string, string]> = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent',
+  'ion', 'ou', 'ism', 'ate', 'iti', 'ous', 'ive', 'ize'
+].map(suffix => [suffix, '']);
+
+/**
+ * Porter stemming algorithm for English
+ */
+function porterStem(word: string): string {
+  if (word.length <= 2 || !/^[a-z]+$/.test(word)) return word;
+
+  let w = word;
+
+  // Step 1a: plurals
+  if (w.endsWith('sses')) w = w.slice(0, -2);
+  else if (w.endsWith('ies')) w = w.slice(0, -2);
+  else if (!w.endsWith('ss') && w.endsWith('s')) w = w.slice(0, -1);
+
+  // Step 1b: past tenses and gerunds
+  if (w.endsWith('eed')) {
+    if (measure(w.slice(0, -3)) > 0) w = w.slice(0, -1);
+  } else {
+    const suffix = w.endsWith('ed') ? 'ed' : w.endsWith('ing') ? 'ing' : null;
+    if (suffix && containsVowel(w.slice(0, -suffix.length))) {
+      w = w.slice(0, -suffix.length);
+
+      if (w.endsWith('at') || w.endsWith('bl') || w.endsWith('iz')) {
+        w += 'e';
+      } else if (endsWithDoubleConsonant(w) && !/[lsz]$/.test(w)) {
+        w = w.slice(0, -1);
+      } else if (measure(w) === 1 && endsWithCvc(w)) {
+        w += 'e';
+      }
+    }
+  }
+
+  // Step 1c: y to i
+  if (w.endsWith('y') && containsVowel(w.slice(0, -1))) {
+    w = w.slice(0, -1) + 'i';
+  }
+
+  // Steps 2-4: derivational suffixes
+  w = replaceSuffix(w, PORTER_STEP2, stem => measure(stem) > 0);
+  w = replaceSuffix(w, PORTER_STEP3, stem => measure(stem) > 0);
+  w = replaceSuffix(w, PORTER_STEP4, (stem, suffix) =>
+    measure(stem) > 1 && (suffix !== 'ion' || /[st]$/.test(stem))
+  );
+
+  // Step 5a: final e
+  if (w.endsWith('e')) {
+    const stem = w.slice(0, -1);
+    const stemMeasure = measure(stem);
+    if (stemMeasure > 1 || (stemMeasure === 1 && !endsWithCvc(stem))) {
+      w = stem;
+    }
+  }
+
+  // Step 5b: double l
+  if (measure(w) > 1 && endsWithDoubleConsonant(w) && w.endsWith('l')) {
+    w = w.slice(0, -1);
+  }
+
+  return w;
+}
+
+function stemEnglish(word: string): string {
+  const baseForm = Object.prototype.hasOwnProperty.call(ENGLISH_IRREGULAR_FORMS, word)
+    ? ENGLISH_IRREGULAR_FORMS[word]
+    : word;
+  return porterStem(baseForm);
+}
+
+/**
+ * Light French stemmer: plurals, feminine endings and -ment adverbs
+ */
+function stemFrench(word: string): string {
+  let w = word;
+
+  // chevaux -> cheval
+  if (w.length > 5 && w.endsWith('aux')) return w.slice(0, -3) + 'al';
+
+  if (w.length > 3 && /[sx]$/.test(w)) w = w.slice(0, -1);
+  if (w.length > 6 && w.endsWith('ement')) w = w.slice(0, -4);
+  if (w.length > 5 && w.endsWith('euse')) w = w.slice(0, -2);
+  if (w.length > 4 && /[eé]$/.test(w)) w = w.slice(0, -1);
+
+  // bonn(e) -> bon
+  if (w.length > 3 && /(nn|ll|tt)$/.test(w)) w = w.slice(0, -1);
+
+  return w;
+}
+
+/**
+ * Light German stemmer: umlauts and the common plural and case endings
+ */
+function stemGerman(word: string): string {
+  let w = word.replace(/ä/g, 'a').replace(/ö/g, 'o').replace(/ü/g, 'u').replace(/ß/g, 'ss');
+
+  if (w.length > 5 && w.endsWith('ern')) {
+    w = w.slice(0, -3);
+  } else if (w.length > 4 && /(em|en|er|es)$/.test(w)) {
+    w = w.slice(0, -2);
+  } else if (w.length > 3 && (/[en]$/.test(w) || /[bdfghklmnrt]s$/.test(w))) {
+    // A final s is only an ending after consonants that can end a German stem
+    w = w.slice(0, -1);
+  }
+
+  return w;
+}
+
+/**
+ * Light Spanish stemmer: plurals and gender endings
+ */
+function stemSpanish(word: string): string {
+  let w = word.normalize('NFD').replace(/[\u0300-\u036f]/g, '').normalize('NFC');
+
+  // luces -> luz
+  if (w.length > 4 && w.endsWith('ces')) {
+    w = w.slice(0, -3) + 'z';
+  } else if (w.length > 4 && /[^aeiou]es$/.test(w)) {
+    w = w.slice(0, -2);
+  } else if (w.length > 3 && w.endsWith('s')) {
+    w = w.slice(0, -1);
+  }
+
+  if (w.length > 3 && /[aoe]$/.test(w)) w = w.slice(0, -1);
+
+  return w;
+}
+
+const STEMMERS: Record<Language, (word: string) => string> = {
+  english: stemEnglish,
+  french: stemFrench,
+  german: stemGerman,
+  spanish: stemSpanish
+};
+
+/**
+ * Reduce a lower case word to its stem in the given language
+ */
+export function stem(word: string, language: Language): string {
+  return STEMMERS[language](word);
+}
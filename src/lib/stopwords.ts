@@ -0,0 +1,45 @@
+// src/lib/stopwords.ts
+/**
+ * Built-in stopword lists - very common words that carry little meaning for
+ * search and are left out of the index and out of queries
+ */
+
+import { Language } from './languages';
+
+export const STOPWORDS: Record<Language, string[]> = {
+  english: [
+    'a', 'about', 'above', 'after', 'again', 'against', 'all', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+    'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by', 'can', 'could',
+    'did', 'do', 'does', 'doing', 'down', 'during', 'each', 'few', 'for', 'from', 'further', 'had', 'has',
+    'have', 'having', 'he', 'her', 'here', 'hers', 'herself', 'him', 'himself', 'his', 'how', 'i', 'if',
+    'in', 'into', 'is', 'it', 'its', 'itself', 'just', 'me', 'more', 'most', 'my', 'myself', 'no', 'nor',
+    'not', 'now', 'of', 'off', 'on', 'once', 'only', 'or', 'other', 'our', 'ours', 'ourselves', 'out',
+    'over', 'own', 'same', 'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their',
+    'theirs', 'them', 'themselves', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to',
+    'too', 'under', 'until', 'up', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which',
+    'while', 'who', 'whom', 'why', 'will', 'with', 'would', 'you', 'your', 'yours', 'yourself', 'yourselves'
+  ],
+  french: [
+    'a', 'au', 'aux', 'avec', 'ce', 'ces', 'cet', 'cette', 'dans', 'de', 'des', 'du', 'elle', 'elles',
+    'en', 'est', 'et', 'eux', 'il', 'ils', 'je', 'la', 'le', 'les', 'leur', 'leurs', 'lui', 'ma', 'mais',
+    'me', 'mes', 'moi', 'mon', 'ne', 'nos', 'notre', 'nous', 'on', 'ou', 'par', 'pas', 'pour', 'qu',
+    'que', 'qui', 'sa', 'se', 'ses', 'son', 'sont', 'sur', 'ta', 'te', 'tes', 'toi', 'ton', 'tu', 'un',
+    'une', 'vos', 'votre', 'vous', 'y', 'à', 'été', 'être'
+  ],
+  german: [
+    'aber', 'als', 'am', 'an', 'auch', 'auf', 'aus', 'bei', 'bin', 'bis', 'bist', 'da', 'damit', 'dann',
+    'das', 'dass', 'dein', 'dem', 'den', 'der', 'des', 'dich', 'die', 'dir', 'doch', 'du', 'ein', 'eine',
+    'einem', 'einen', 'einer', 'eines', 'er', 'es', 'euer', 'für', 'hat', 'hatte', 'ich', 'ihr', 'im',
+    'in', 'ist', 'ja', 'kein', 'keine', 'man', 'mein', 'mich', 'mir', 'mit', 'nach', 'nicht', 'noch',
+    'nun', 'nur', 'ob', 'oder', 'sein', 'sich', 'sie', 'sind', 'so', 'über', 'um', 'und', 'uns', 'unser',
+    'unter', 'vom', 'von', 'vor', 'war', 'waren', 'was', 'weil', 'wenn', 'wer', 'wie', 'wir', 'wird',
+    'zu', 'zum', 'zur'
+  ],
+  spanish: [
+    'a', 'al', 'algo', 'como', 'con', 'contra', 'cual', 'de', 'del', 'desde', 'donde', 'e', 'el', 'ella',
+    'ellas', 'ellos', 'en', 'entre', 'era', 'es', 'esa', 'ese', 'eso', 'esta', 'este', 'esto', 'fue',
+    'ha', 'hay', 'la', 'las', 'le', 'les', 'lo', 'los', 'me', 'mi', 'mis', 'muy', 'más', 'ni', 'no',
+    'nos', 'o', 'para', 'pero', 'por', 'que', 'quien', 'se', 'sin', 'sobre', 'su', 'sus', 'también',
+    'te', 'tu', 'tus', 'u', 'un', 'una', 'uno', 'unos', 'y', 'ya', 'yo', 'él'
+  ]
+};
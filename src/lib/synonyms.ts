@@ -0,0 +1,207 @@
+// src/lib/synonyms.ts
+/**
+ * Synonym rules and query expansion
+ *
+ * Rules use one line per rule:
+ * - Equivalent terms: `tv, television` - a query for any of them matches all of them
+ * - One-way rules: `iphone => apple phone` - a query for `iphone` also matches
+ *   `apple phone`, but not the other way round
+ *
+ * Synonyms are applied to queries only: a parsed query is rewritten so that
+ * each term (or run of terms) with synonyms becomes an OR of the original and
+ * its synonyms. Multi-word synonyms are matched as phrases. The index is not
+ * changed, so new rules take effect without re-indexing.
+ */
+
+import { QueryNode } from './queryParser';
+import { Analyzer, groupByPosition } from './analyzer';
+
+// A parsed synonym rule
+export type SynonymRule = {
+  // Terms that trigger the rule
+  inputs: string[];
+  // Terms a query for any input also matches
+  outputs: string[];
+};
+
+/**
+ * Parse a rule line into its inputs and outputs. Returns null if the line
+ * isn't a valid rule.
+ */
+export function parseSynonymRule(rule: string): SynonymRule | null {
+  const sides = rule.split('=>');
+  if (sides.length > 2) return null;
+
+  const splitTerms = (side: string) => side.split(',').map(term => term.trim().replace(/\s+/g, ' '));
+
+  if (sides.length === 2) {
+    const inputs = splitTerms(sides[0]);
+    const outputs = splitTerms(sides[1]);
+    if ([...inputs, ...outputs].some(term => term.length === 0)) return null;
+    return { inputs, outputs };
+  }
+
+  // Equivalent terms are all inputs and outputs of each other
+  const terms = splitTerms(sides[0]);
+  if (terms.length < 2 || terms.some(term => term.length === 0)) return null;
+  return { inputs: terms, outputs: terms };
+}
+
+/**
+ * Check that synonym rules are a list of valid rule lines.
+ * Returns an error message, or null if the rules are valid.
+ */
+export function validateSynonymRules(rules: unknown): string | null {
+  if (!Array.isArray(rules)) {
+    return 'synonyms must be an array of rules such as "tv, television" or "iphone => apple phone"';
+  }
+
+  for (const rule of rules) {
+    if (typeof rule !== 'string' || !parseSynonymRule(rule)) {
+      return `Invalid synonym rule ${JSON.stringify(rule)}. Expected "a, b, c" or "a => b"`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Synonym rules indexed by their analyzed input terms, for expanding queries
+ */
+export class SynonymMap {
+  private rules: string[];
+  private analyzer: Analyzer;
+  // Analyzed input term (words joined by spaces) to the synonyms it expands to
+  private expansions: Map<string, string[]>;
+  // Most words in any input term, to bound the runs of terms looked up
+  private maxInputWords: number;
+
+  /**
+   * @param rules Rule lines; invalid lines are skipped
+   * @param analyzer The analyzer of the trie the rules apply to, so `TV`
+   * matches the rule for `tv` when text is lower cased
+   */
+  constructor(rules: string[] = [], analyzer: Analyzer = new Analyzer()) {
+    this.rules = rules;
+    this.analyzer = analyzer;
+    this.expansions = new Map<string, string[]>();
+    this.maxInputWords = 0;
+
+    for (const line of rules) {
+      const rule = parseSynonymRule(line);
+      if (!rule) continue;
+
+      for (const input of rule.inputs) {
+        const key = this.key(input);
+        if (!key) continue;
+
+        const synonyms = this.expansions.get(key) ?? [];
+        for (const output of rule.outputs) {
+          if (this.key(output) !== key && !synonyms.includes(output)) {
+            synonyms.push(output);
+          }
+        }
+        this.expansions.set(key, synonyms);
+        this.maxInputWords = Math.max(this.maxInputWords, input.split(' ').length);
+      }
+    }
+  }
+
+  /**
+   * Get the rule lines the map was built from
+   */
+  getRules(): string[] {
+    return this.rules;
+  }
+
+  /**
+   * Rewrite a query so that terms with synonyms also match their synonyms
+   */
+  expand(node: QueryNode): QueryNode {
+    if (this.expansions.size === 0) return node;
+
+    switch (node.type) {
+      case 'term':
+      case 'phrase':
+        return this.expandTerms([node], node.value, node.field);
+
+      case 'and':
+        return { type: 'and', children: this.expandSequence(node.children) };
+
+      case 'or':
+        return { type: 'or', children: node.children.map(child => this.expand(child)) };
+
+      case 'not':
+        return { type: 'not', child: this.expand(node.child) };
+
+      case 'range':
+      case 'wildcard':
+      case 'regex':
+        return node;
+    }
+  }
+
+  /**
+   * Expand the children of an AND, where a run of adjacent terms in the same
+   * field may together be the input of a multi-word rule (`apple phone`).
+   * The longest run with synonyms wins.
+   */
+  private expandSequence(children: QueryNode[]): QueryNode[] {
+    const result: QueryNode[] = [];
+    let index = 0;
+
+    while (index < children.length) {
+      let expanded: QueryNode | null = null;
+      let length = Math.min(this.maxInputWords, children.length - index);
+
+      for (; length > 1; length--) {
+        const run = children.slice(index, index + length);
+        const field = run[0].type === 'term' ? run[0].field : undefined;
+        if (!run.every(child => child.type === 'term' && child.field === field)) continue;
+
+        const text = run.map(child => (child as Extract<QueryNode, { type: 'term' }>).value).join(' ');
+        if (this.expansions.has(this.key(text))) {
+          expanded = this.expandTerms(run, text, field);
+          break;
+        }
+      }
+
+      if (expanded) {
+        result.push(expanded);
+        index += length;
+      } else {
+        result.push(this.expand(children[index]));
+        index++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Combine the original terms with the synonyms of their text, if any
+   */
+  private expandTerms(original: QueryNode[], text: string, field: string | undefined): QueryNode {
+    const originalNode: QueryNode = original.length === 1 ? original[0] : { type: 'and', children: original };
+    const synonyms = this.expansions.get(this.key(text));
+    if (!synonyms || synonyms.length === 0) return originalNode;
+
+    const synonymNodes = synonyms.map((synonym): QueryNode => {
+      const terms = synonym.split(' ');
+      return terms.length === 1
+        ? { type: 'term', value: synonym, field }
+        : { type: 'phrase', value: synonym, terms, field };
+    });
+
+    return { type: 'or', children: [originalNode, ...synonymNodes] };
+  }
+
+  /**
+   * Analyzed form of a term, one word per position, joined by spaces
+   */
+  private key(text: string): string {
+    return groupByPosition(this.analyzer.analyze(text))
+      .map(group => (group.tokens.find(token => !token.kind) ?? group.tokens[0]).text)
+      .join(' ');
+  }
+}
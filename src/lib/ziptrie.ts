@@ -1,341 +1,1465 @@
 // src/lib/ziptrie.ts
 /**
- * ZipTrie - A simplified prefix tree for fast in-memory search
+ * ZipTrie - A path-compressed prefix tree for fast in-memory search
  * 
- * This implementation focuses on reliability and simplicity to ensure
- * search results are always returned correctly.
+ * Each node holds a compressed edge label rather than a single character,
+ * so chains of single-child nodes collapse into one node. Nodes are split
+ * when an inserted word diverges part-way through an edge label.
  */
 
+import { QueryNode, PREFIX_PATTERN, parseQuery } from './queryParser';
+import { Analyzer, Token, TokenKind, groupByPosition, tokenKey } from './analyzer';
+import { SynonymMap } from './synonyms';
+import { FieldType, RangeBounds, SearchFilter, TypedFieldIndex, typedValue } from './fieldIndex';
+import { FacetCount, DEFAULT_FACET_SIZE, countFacetValues, hasFacetValue } from './facets';
+import { SortField, SortValue, SCORE_FIELD, compareSortValues, sortValue } from './sort';
+import { FieldHighlight, HighlightOptions, Highlighter } from './highlight';
+import { fieldPathValues, normalizeFieldPath, recordFieldValues, sameFieldPath } from './fieldPaths';
+import { CollapseOptions, collapseValue, groupHits } from './collapse';
+import { Automaton, PatternLimits, PatternLimitError, DEFAULT_PATTERN_LIMITS, compilePattern } from './patterns';
+import {
+  PostingList,
+  ScoredPosting,
+  addPosting,
+  mergePostingLists,
+  unionPostings,
+  intersectScored,
+  unionScored,
+  differenceScored
+} from './postings';
+
 // Define the structure of a node in our trie
 export interface ZipTrieNode {
-  char: string;
+  // Compressed edge label leading into this node (empty for the root)
+  label: string;
+  // Children keyed by the first character of their edge label
   children: Map<string, ZipTrieNode>;
   isEndOfWord: boolean;
-  items: Array<Record<string, unknown>>;
+  // Documents containing the word ending at this node (with term frequencies), by field
+  postings: Map<string, PostingList>;
 }
 
 // Define a type for the tree visualization
 export type TrieVisualizationNode = {
+  // The edge label of the node (may be more than one character)
   char: string;
   isEndOfWord: boolean;
   itemCount: number;
   children: TrieVisualizationNode[];
 };
 
+// Options for typo-tolerant search
+export type FuzzyOptions = {
+  // Maximum number of edits between the query and a matching word (capped at 2)
+  maxEdits?: number;
+  // Count swapped adjacent characters as one edit (Damerau) instead of two (Levenshtein)
+  transpositions?: boolean;
+};
+
+// How a query term is matched against indexed words:
+// - prefix: words starting with the term (default)
+// - infix: words containing the term anywhere, backed by the suffix index
+// - exact: whole words equal to the term
+export type MatchMode = 'prefix' | 'infix' | 'exact';
+
+export const MATCH_MODES: MatchMode[] = ['prefix', 'infix', 'exact'];
+
+// Options accepted by ZipTrie.search
+export type SearchOptions = {
+  limit?: number;
+  // Number of sorted results to skip, for paging
+  offset?: number;
+  highPerformance?: boolean;
+  matchMode?: MatchMode;
+  // Enable fuzzy matching; `true` uses the default of one edit
+  fuzzy?: boolean | FuzzyOptions;
+  // Also match words that sound like the query terms, in fields with a phonetic encoding
+  phonetic?: boolean;
+  // Only match terms in these fields (terms with their own `field:` scope keep it)
+  fields?: string[];
+  // Only return documents that also pass these filters (e.g. numeric ranges)
+  filter?: SearchFilter;
+  // Fields to count the values of across all matches (searchDetailed only)
+  facets?: string[];
+  // Number of values returned per facet
+  facetSize?: number;
+  // Order results by these fields instead of by relevance; relevance breaks ties
+  sort?: SortField[];
+  // Return the matches in each result's fields; `true` uses the default options
+  highlight?: boolean | HighlightOptions;
+  // Limits on the words a wildcard or regular expression may expand to
+  patternLimits?: PatternLimits;
+  // Return only the first hit (in result order) of each group of results sharing a field value
+  collapse?: CollapseOptions;
+};
+
+// A single search hit
+export type SearchResult = {
+  data: Record<string, unknown>;
+  score: number;
+  // Matches by field, when highlighting was asked for
+  highlights?: Record<string, FieldHighlight>;
+  // The group the hit stands for, when results are collapsed
+  group?: ResultGroup;
+};
+
+// A group of collapsed results
+export type ResultGroup = {
+  // The shared value in the collapse field (null for a record without one)
+  value: string | null;
+  // Number of hits in the group
+  count: number;
+  // The group's top hits, best first, when asked for
+  members?: SearchResult[];
+};
+
+// Search hits along with information about every match, not just the hits returned
+export type SearchResponse = {
+  results: SearchResult[];
+  // Number of documents matched, or of groups when collapsed
+  total: number;
+  // Number of documents matched, when collapsed
+  totalHits?: number;
+  // Top values of each requested facet field, with document counts
+  facets: Record<string, FacetCount[]>;
+};
+
+// A completion of a partly typed word or phrase
+export type Suggestion = {
+  text: string;
+  // Number of documents containing the word or phrase
+  count: number;
+};
+
+// Most suggestions returned at once - the size of the per-node caches
+export const MAX_SUGGESTIONS = 20;
+
+// Most nodes whose suggestions are cached at once; the oldest goes first
+const SUGGESTION_CACHE_SIZE = 1000;
+
+// A word in the trie that matched a query term, and how well it matched
+type WordMatch = {
+  node: ZipTrieNode;
+  word: string;
+  // Edit distance between the query term and the word (0 unless fuzzy)
+  distance: number;
+  // Multiplier applied to the word's BM25 score
+  weight: number;
+};
+
+// Each edit divides the weight of a spelling correction by this, so a far more
+// common word can win over a closer but rare one
+const CORRECTION_EDIT_PENALTY = 10;
+
+// Upper bound on fuzzy edit distance to keep the trie walk bounded
+const MAX_FUZZY_EDITS = 2;
+
+// BM25 parameters: k1 controls how quickly repeated terms stop adding to the
+// score, b controls how strongly long fields are penalised
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Words found through the suffix index score lower than words starting with the term
+const INFIX_MATCH_WEIGHT = 0.5;
+
+// Matches on derived forms of a word score lower than matches on the word as written
+const DERIVED_MATCH_WEIGHTS: Record<TokenKind, number> = {
+  stem: 0.5,
+  phonetic: 0.3
+};
+
+// Field key for postings whose source field is unknown (tries exported before
+// postings were kept per field). Unscoped searches still match them.
+export const UNKNOWN_FIELD = '*';
+
+/**
+ * Record occurrences of a node's word in a document's field, without
+ * touching anything derived from the postings
+ */
+function addFieldPosting(node: ZipTrieNode, field: string, docId: number, count: number = 1): void {
+  let postings = node.postings.get(field);
+  if (!postings) {
+    postings = { docIds: [], frequencies: [] };
+    node.postings.set(field, postings);
+  }
+  addPosting(postings, docId, count);
+}
+
+/**
+ * Get a word as it is used in phrase suggestions, without the punctuation
+ * around it (`fast,` gives `fast`)
+ */
+function phraseWord(text: string): string {
+  return text.replace(/^[^\p{L}\p{M}\p{N}]+|[^\p{L}\p{M}\p{N}]+$/gu, '');
+}
+
+/**
+ * Order suggestions by the number of documents (most first), then shortest
+ * and alphabetically
+ */
+function bySuggestionRank(a: Suggestion, b: Suggestion): number {
+  return b.count - a.count || a.text.length - b.text.length || a.text.localeCompare(b.text);
+}
+
 export class ZipTrie {
-  private root: ZipTrieNode;
-  private allItems: Record<string, unknown>[];
+  protected root: ZipTrieNode;
+  // Suffix index for infix matching - built from the vocabulary on first use
+  private suffixRoot: ZipTrieNode | null;
+  // Indexes of derived forms of words (e.g. stems), by token kind
+  private derivedRoots: Map<TokenKind, ZipTrieNode>;
+  // Document table - a record's position in this array is its document ID
+  protected documents: Record<string, unknown>[];
   private searchableFields: string[];
+  // Every field that has postings in the trie
+  private indexedFields: Set<string>;
+  // Number of words in each field of each document, indexed by document ID
+  private fieldLengths: Map<string, number[]>;
+  // Total words and number of documents with a value, per field (for average field length)
+  private fieldStats: Map<string, { totalLength: number; documentCount: number }>;
+  // Score multipliers by lowercase field name - part of the configuration, so kept by clear()
+  private fieldWeights: Map<string, number>;
+  // Turns field values and query terms into indexed words
+  private analyzer: Analyzer;
+  // Synonyms that queries are expanded with - configuration, so kept by clear()
+  private synonyms: SynonymMap;
+  // Sorted values of numeric and date fields, for range filters
+  private typedFields: Map<string, TypedFieldIndex>;
+  // Index of two-word phrases for suggestions - built from the documents on first use
+  private phraseRoot: ZipTrieNode | null;
+  // Most common words below the nodes suggestions were asked for - dropped whenever postings change
+  private suggestionCache: Map<ZipTrieNode, Suggestion[]> | null;
 
   constructor() {
     this.root = this.createNode('');
-    this.allItems = [];
+    this.suffixRoot = null;
+    this.derivedRoots = new Map<TokenKind, ZipTrieNode>();
+    this.documents = [];
     this.searchableFields = [];
+    this.indexedFields = new Set<string>();
+    this.fieldLengths = new Map<string, number[]>();
+    this.fieldStats = new Map<string, { totalLength: number; documentCount: number }>();
+    this.fieldWeights = new Map<string, number>();
+    this.analyzer = new Analyzer();
+    this.synonyms = new SynonymMap();
+    this.typedFields = new Map<string, TypedFieldIndex>();
+    this.phraseRoot = null;
+    this.suggestionCache = null;
   }
 
   /**
    * Create a new node for the trie
    */
-  private createNode(char: string): ZipTrieNode {
+  private createNode(label: string): ZipTrieNode {
     return {
-      char,
+      label,
       children: new Map<string, ZipTrieNode>(),
       isEndOfWord: false,
-      items: []
+      postings: new Map<string, PostingList>()
     };
   }
 
   /**
-   * Insert a word into the trie
+   * Length of the common prefix of an edge label and a word starting at an offset
+   */
+  private commonPrefixLength(label: string, word: string, offset: number): number {
+    let length = 0;
+    while (
+      length < label.length &&
+      offset + length < word.length &&
+      label[length] === word[offset + length]
+    ) {
+      length++;
+    }
+    return length;
+  }
+
+  /**
+   * Split a child's edge label at the given position, inserting an
+   * intermediate node that holds the shared part of the label
+   */
+  private splitNode(parent: ZipTrieNode, child: ZipTrieNode, position: number): ZipTrieNode {
+    const middle = this.createNode(child.label.substring(0, position));
+    
+    child.label = child.label.substring(position);
+    middle.children.set(child.label[0], child);
+    parent.children.set(middle.label[0], middle);
+    
+    return middle;
+  }
+
+  /**
+   * Merge a node with its only child when the node itself holds no data.
+   * Returns true if a merge happened.
+   */
+  private mergeNode(node: ZipTrieNode): boolean {
+    if (node === this.root || node.isEndOfWord || node.postings.size > 0 || node.children.size !== 1) {
+      return false;
+    }
+
+    const [child] = node.children.values();
+    node.label += child.label;
+    node.children = child.children;
+    node.isEndOfWord = child.isEndOfWord;
+    node.postings = child.postings;
+    return true;
+  }
+
+  /**
+   * Merge every chain of single-child nodes in the trie.
+   * Used after importing tries that were stored one character per node.
+   */
+  compact(node: ZipTrieNode = this.root): void {
+    while (this.mergeNode(node)) {
+      // Keep absorbing children until the chain ends
+    }
+
+    for (const childNode of node.children.values()) {
+      this.compact(childNode);
+    }
+  }
+
+  /**
+   * Add a record to the document table and return its document ID
+   */
+  protected addDocument(item: Record<string, unknown>): number {
+    this.documents.push(item);
+    const docId = this.documents.length - 1;
+    this.indexTypedValues(item, docId);
+    this.phraseRoot = null;
+    return docId;
+  }
+
+  /**
+   * Add a record's numeric and date values to the typed field indexes, by
+   * field path so nested values and array elements are included. A field's
+   * type is set by its first typed value; values of another type are left out.
+   */
+  private indexTypedValues(item: Record<string, unknown>, docId: number): void {
+    for (const [field, value] of recordFieldValues(item)) {
+      const typed = typedValue(value);
+      if (!typed) continue;
+
+      let index = this.typedFields.get(field);
+      if (!index) {
+        index = new TypedFieldIndex(typed.type);
+        this.typedFields.set(field, index);
+      }
+      if (index.type === typed.type) {
+        index.add(docId, typed.value);
+      }
+    }
+  }
+
+  /**
+   * Get the fields that can be filtered by range, with their types
+   */
+  getTypedFields(): Record<string, FieldType> {
+    return Object.fromEntries(Array.from(this.typedFields, ([field, index]) => [field, index.type]));
+  }
+
+  /**
+   * Find a typed field index by field name, ignoring case and array markers
+   */
+  private findTypedField(field: string): TypedFieldIndex | undefined {
+    const index = this.typedFields.get(field);
+    if (index) return index;
+
+    for (const [typedField, typedIndex] of this.typedFields) {
+      if (sameFieldPath(typedField, field)) return typedIndex;
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the posting list of a node, merged across the given fields (or all fields)
+   */
+  protected nodePostings(node: ZipTrieNode, fields?: string[]): number[] {
+    let merged: number[] = [];
+
+    for (const [field, postings] of node.postings) {
+      // Postings of unknown origin (UNKNOWN_FIELD) only count when the search isn't field-scoped
+      if (!fields || fields.includes(field)) {
+        merged = merged.length === 0 ? postings.docIds : unionPostings(merged, postings.docIds);
+      }
+    }
+
+    return merged;
+  }
+
+  /**
+   * Record occurrences of a node's word in a document's field
+   */
+  protected addNodePosting(node: ZipTrieNode, field: string, docId: number, count: number = 1): void {
+    addFieldPosting(node, field, docId, count);
+    this.indexedFields.add(field);
+    this.suggestionCache = null;
+  }
+
+  /**
+   * Record the number of words in a document's field, for BM25 length normalisation
+   */
+  protected recordFieldLength(docId: number, field: string, length: number): void {
+    let lengths = this.fieldLengths.get(field);
+    if (!lengths) {
+      lengths = [];
+      this.fieldLengths.set(field, lengths);
+    }
+    lengths[docId] = length;
+
+    const stats = this.fieldStats.get(field) ?? { totalLength: 0, documentCount: 0 };
+    stats.totalLength += length;
+    stats.documentCount++;
+    this.fieldStats.set(field, stats);
+  }
+
+  /**
+   * Number of word positions in analyzed text (alternatives for a word count once)
+   */
+  protected countPositions(tokens: Token[]): number {
+    return new Set(tokens.map(token => token.position)).size;
+  }
+
+  /**
+   * Analyze a document's values at a field path. Each array element is
+   * analyzed on its own, so phrases don't run from one element into the next.
+   */
+  protected analyzeFieldValues(item: Record<string, unknown>, field: string): Token[][] {
+    return fieldPathValues(item, field).map(value => this.analyzer.analyze(String(value), field));
+  }
+
+  /**
+   * Get every field that has postings in the trie
+   */
+  getIndexedFields(): string[] {
+    return Array.from(this.indexedFields);
+  }
+
+  /**
+   * Set how much a match in each field counts towards a document's score,
+   * e.g. `{ title: 3, description: 1 }`. Fields without a weight count once.
+   */
+  setFieldWeights(weights: Record<string, number>): void {
+    this.fieldWeights.clear();
+    for (const [field, weight] of Object.entries(weights)) {
+      this.fieldWeights.set(normalizeFieldPath(field), weight);
+    }
+  }
+
+  /**
+   * Set the analyzer used for field values and query terms. Data loaded
+   * before the change is not re-analyzed, so set it before loadData.
+   */
+  setAnalyzer(analyzer: Analyzer): void {
+    this.analyzer = analyzer;
+    // Synonyms are looked up by their analyzed form
+    this.synonyms = new SynonymMap(this.synonyms.getRules(), analyzer);
+  }
+
+  /**
+   * Get the analyzer used for field values and query terms
+   */
+  getAnalyzer(): Analyzer {
+    return this.analyzer;
+  }
+
+  /**
+   * Set the synonym rules queries are expanded with, e.g. `tv, television`
+   * or `iphone => apple phone`. Takes effect on the next search; the index
+   * doesn't change.
+   */
+  setSynonyms(rules: string[]): void {
+    this.synonyms = new SynonymMap(rules, this.analyzer);
+  }
+
+  /**
+   * Get the configured synonym rules
+   */
+  getSynonyms(): string[] {
+    return this.synonyms.getRules();
+  }
+
+  /**
+   * Get the configured field weights
+   */
+  getFieldWeights(): Record<string, number> {
+    return Object.fromEntries(this.fieldWeights);
+  }
+
+  /**
+   * Map a field name from a query onto an indexed field, ignoring case and
+   * array markers (`tags` finds `tags[]`). Unknown fields are returned
+   * unchanged (and simply match nothing).
+   */
+  resolveField(field: string): string {
+    if (this.indexedFields.has(field)) return field;
+
+    for (const indexedField of this.indexedFields) {
+      if (sameFieldPath(indexedField, field)) {
+        return indexedField;
+      }
+    }
+    return field;
+  }
+
+  /**
+   * Insert a word into the trie. The word is stored as given, so it should
+   * already have been through the analyzer.
    * @param word The word to insert
-   * @param item The data item associated with this word
+   * @param docId The ID of the document containing this word
+   * @param field The field of the document the word came from
    * @param skipLogging Whether to skip logging (for performance)
    */
-  insert(word: string, item: Record<string, unknown>, skipLogging = false): void {
+  insert(word: string, docId: number, field: string, skipLogging = false): void {
     if (!word || word.length === 0) return;
-
-    // Normalize the word to lowercase for case-insensitive search
-    const normalizedWord = word.toLowerCase();
     
     // Only log if not in performance mode
     if (!skipLogging) {
-      console.log(`Inserting word: '${normalizedWord}'`);
+      console.log(`Inserting word: '${word}'`);
     }
 
-    let currentNode = this.root;
+    // Mark the end of the word and record the document in the field's posting list
+    const node = this.insertNode(this.root, word);
+    this.addNodePosting(node, field, docId);
 
-    // Traverse the trie and create nodes as needed
-    for (let i = 0; i < normalizedWord.length; i++) {
-      const char = normalizedWord[i];
-      
-      // If the character doesn't exist in the current node's children, create a new node
-      if (!currentNode.children.has(char)) {
-        currentNode.children.set(char, this.createNode(char));
+    // The vocabulary changed, so the suffix index must be rebuilt before its next use
+    this.suffixRoot = null;
+  }
+
+  /**
+   * Index an analyzed token. Words go into the trie; derived forms go into
+   * the index for their kind.
+   */
+  protected indexToken(token: Token, docId: number, field: string): void {
+    if (!token.kind) {
+      this.insert(token.text, docId, field, true);
+      return;
+    }
+
+    let root = this.derivedRoots.get(token.kind);
+    if (!root) {
+      root = this.createNode('');
+      this.derivedRoots.set(token.kind, root);
+    }
+    this.addNodePosting(this.insertNode(root, token.text), field, docId);
+  }
+
+  /**
+   * Add a word below the given root, splitting edges as needed, and return
+   * the node the word ends on
+   */
+  private insertNode(root: ZipTrieNode, normalizedWord: string): ZipTrieNode {
+    let currentNode = root;
+    let position = 0;
+
+    // Walk down the compressed edges, splitting them where the word diverges
+    while (position < normalizedWord.length) {
+      const child = currentNode.children.get(normalizedWord[position]);
+
+      // No edge starts with this character - the rest of the word becomes a single leaf
+      if (!child) {
+        const leaf = this.createNode(normalizedWord.substring(position));
+        currentNode.children.set(leaf.label[0], leaf);
+        currentNode = leaf;
+        break;
+      }
+
+      const matched = this.commonPrefixLength(child.label, normalizedWord, position);
+
+      // The word ends or diverges inside the edge label, so split the edge
+      if (matched < child.label.length) {
+        currentNode = this.splitNode(currentNode, child, matched);
+      } else {
+        currentNode = child;
       }
 
-      // Move to the next node
-      currentNode = currentNode.children.get(char)!;
+      position += matched;
     }
 
-    // Mark the end of the word and store the item
     currentNode.isEndOfWord = true;
-    
-    // Only add the item if it's not already in the list - use reference comparison for speed
-    // This is a performance optimization for large datasets
-    const itemExists = currentNode.items.some(existingItem => existingItem === item);
-    if (!itemExists) {
-      currentNode.items.push(item);
+    return currentNode;
+  }
+
+  /**
+   * Get the suffix index, building it if the vocabulary changed since it was last used
+   */
+  private getSuffixRoot(): ZipTrieNode {
+    if (!this.suffixRoot) {
+      this.suffixRoot = this.buildSuffixIndex();
     }
+    return this.suffixRoot;
   }
 
   /**
-   * Get a unique identifier for an item
+   * Build the suffix index by inserting every proper suffix of every indexed
+   * word, carrying over the word's posting list. A prefix lookup in this
+   * index then finds words that contain the query anywhere after their first
+   * character; matches at the start of a word are found in the main trie.
    */
-  private getItemId(item: Record<string, unknown>): string {
-    // Use ID fields if available
-    if (item.id) return String(item.id);
-    if (item.Id) return String(item.Id);
-    if (item.ID) return String(item.ID);
-    if (item.OrganizationId) return String(item.OrganizationId);
-    if (item.Index) return String(item.Index);
+  private buildSuffixIndex(): ZipTrieNode {
+    const suffixRoot = this.createNode('');
+
+    const traverse = (node: ZipTrieNode, word: string) => {
+      // Whole multi-word field values (found in older exported tries) are skipped -
+      // infix matching works within words
+      if (node.isEndOfWord && node.postings.size > 0 && !/\s/.test(word)) {
+        for (let i = 1; i < word.length; i++) {
+          const suffixNode = this.insertNode(suffixRoot, word.substring(i));
+          for (const [field, postings] of node.postings) {
+            // Different words sharing a suffix add up, like repeats of one word would
+            const existing = suffixNode.postings.get(field);
+            suffixNode.postings.set(field, existing
+              ? mergePostingLists(existing, postings)
+              : { docIds: postings.docIds.slice(), frequencies: postings.frequencies.slice() });
+          }
+        }
+      }
+
+      for (const childNode of node.children.values()) {
+        traverse(childNode, word + childNode.label);
+      }
+    };
 
-    // Fallback to using the whole object
-    return JSON.stringify(item);
+    traverse(this.root, '');
+    return suffixRoot;
   }
 
   /**
-   * Search the trie for words that match the given query
-   * @param query The search query
-   * @param limit Maximum number of results to return
+   * Search the trie for documents that match the given query.
+   * Text queries are parsed with the boolean query language (see queryParser);
+   * invalid syntax throws a QueryParseError.
+   * @param query The search query, or an already parsed query
+   * @param options Maximum number of results to return, or a full set of search options
    * @param highPerformance If true, minimize logging for better performance
    */
   search(
-    query: string, 
-    limit: number = 10, 
+    query: string | QueryNode | null, 
+    options: number | SearchOptions = 10, 
+    highPerformance: boolean = false
+  ): SearchResult[] {
+    return this.searchDetailed(query, options, highPerformance).results;
+  }
+
+  /**
+   * Search like `search`, also returning the number of matches and the
+   * counts of the requested facet fields' values over all of them
+   */
+  searchDetailed(
+    query: string | QueryNode | null, 
+    options: number | SearchOptions = 10, 
     highPerformance: boolean = false
-  ): Array<{ data: Record<string, unknown>; score: number }> {
-    if (!query) return [];
+  ): SearchResponse {
+    const searchOptions: SearchOptions = typeof options === 'number' ? { limit: options } : options;
+    const limit = searchOptions.limit ?? 10;
+    const offset = Math.max(0, searchOptions.offset ?? 0);
+    highPerformance = searchOptions.highPerformance ?? highPerformance;
+    const emptyResponse = (): SearchResponse => ({
+      results: [],
+      total: 0,
+      facets: Object.fromEntries((searchOptions.facets ?? []).map(field => [field, []]))
+    });
+
+    // A filter on its own returns every document that passes it
+    if (!query && !searchOptions.filter) return emptyResponse();
 
     const startTime = performance.now();
-    const lowerQuery = query.toLowerCase().trim();
+    const queryText = typeof query === 'string' ? query.trim() : JSON.stringify(query ?? '');
     
     if (!highPerformance) {
-      console.log(`Searching for: "${lowerQuery}"`);
+      console.log(`Searching for: "${queryText}"`, searchOptions.filter ? searchOptions.filter : '');
     }
 
-    // Find the node corresponding to the query prefix
-    const node = this.findNode(lowerQuery);
+    // Callers that already parsed the query (e.g. to report syntax errors) can pass the AST
+    const parsedQuery = typeof query === 'string' ? parseQuery(query, { fields: this.getIndexedFields() }) : query;
+    if (!parsedQuery && !searchOptions.filter) return emptyResponse();
 
-    // If no node found for the prefix, return empty results
-    if (!node) {
+    // Expand synonyms before looking anything up in the trie
+    const expandedQuery = parsedQuery ? this.synonyms.expand(parsedQuery) : null;
+    const matches = expandedQuery ? this.evaluateQuery(expandedQuery, searchOptions) : null;
+
+    // Filters restrict the matches further, or select from every document without a query
+    let results = matches;
+    if (searchOptions.filter) {
+      results = this.applyFilter(matches ?? this.allDocuments(), searchOptions.filter);
+    }
+
+    // If nothing matched (or every term analyzed to nothing), return empty results
+    if (!results || results.length === 0) {
       if (!highPerformance) {
-        console.log('No matches found for prefix');
+        console.log('No matches found for query');
       }
-      return [];
+      // Facets are still counted, so a terms filter on a faceted field shows the values it could switch to
+      return results ? { ...emptyResponse(), facets: this.countFacets(matches, results, searchOptions) } : emptyResponse();
     }
 
-    // Collect all items that match the prefix
-    const results: Array<{ data: Record<string, unknown>; score: number }> = [];
-    const seenItems = new Set<Record<string, unknown>>();
+    // Count facet values before the results are sorted and cut to the limit
+    const facets = this.countFacets(matches, results, searchOptions);
 
-    // First, add exact matches (items at the node itself)
-    if (node.isEndOfWord) {
-      for (const item of node.items) {
-        if (!seenItems.has(item)) {
-          results.push({ data: item, score: 1.0 });
-          seenItems.add(item);
-        }
-      }
-    }
+    this.sortResults(results, searchOptions.sort);
 
-    // Then, collect all items from child nodes (words that start with the query)
-    this.collectWords(node, lowerQuery, results, seenItems, limit);
+    const toResult = (result: ScoredPosting): SearchResult => ({
+      data: this.documents[result.docId],
+      score: result.score
+    });
 
-    // Sort by score (higher score first)
-    results.sort((a, b) => b.score - a.score);
+    // Cut out the requested page and only now resolve IDs to records
+    let limitedResults: SearchResult[];
+    let total = results.length;
+    const collapse = searchOptions.collapse;
+
+    if (collapse) {
+      // Each group is represented by its first hit in the sort order (the highest-scoring
+      // one without a sort), and pages are made of groups
+      const groups = groupHits(results, result => collapseValue(this.documents[result.docId], collapse.field));
+      total = groups.length;
+
+      limitedResults = groups.slice(offset, offset + limit).map(({ value, hits }) => ({
+        ...toResult(hits[0]),
+        group: {
+          value,
+          count: hits.length,
+          ...(collapse.size ? { members: hits.slice(0, collapse.size).map(toResult) } : {})
+        }
+      }));
+    } else {
+      limitedResults = results.slice(offset, offset + limit).map(toResult);
+    }
 
-    // Limit the number of results
-    const limitedResults = results.slice(0, limit);
+    if (searchOptions.highlight) {
+      this.highlightResults(limitedResults, expandedQuery, searchOptions);
+      this.highlightResults(limitedResults.flatMap(result => result.group?.members ?? []), expandedQuery, searchOptions);
+    }
     
     if (!highPerformance) {
       const endTime = performance.now();
       const timeTaken = (endTime - startTime).toFixed(2);
-      console.log(`Found ${limitedResults.length} results for "${lowerQuery}" in ${timeTaken}ms`);
+      console.log(`Found ${limitedResults.length} results for "${queryText}" in ${timeTaken}ms`);
     }
 
-    return limitedResults;
+    return {
+      results: limitedResults,
+      total,
+      ...(collapse ? { totalHits: results.length } : {}),
+      facets
+    };
   }
 
   /**
-   * Special handling for single character searches
+   * Add the matches of the query's terms to each result, in the fields asked
+   * for or else the fields that were searched
    */
-  private searchSingleChar(char: string, limit: number): Array<{ word: string; data: Record<string, unknown> }> {
-    const results: Array<{ word: string; data: Record<string, unknown> }> = [];
-    const seenItems = new Set<string>();
+  private highlightResults(results: SearchResult[], query: QueryNode | null, options: SearchOptions): void {
+    const highlightOptions = options.highlight === true ? {} : options.highlight || {};
+    const highlighter = new Highlighter(this.analyzer, query, options, highlightOptions);
+
+    const requestedFields = highlightOptions.fields ?? options.fields;
+    for (const result of results) {
+      // Imported tries don't know their fields, so fall back to every field of the record
+      const fields = requestedFields && requestedFields.length > 0
+        ? requestedFields.map(field => this.recordField(result.data, field))
+        : this.searchableFields.length > 0 ? this.searchableFields : Object.keys(result.data);
+      result.highlights = highlighter.highlight(result.data, fields);
+    }
+  }
 
-    // Search through all items directly
-    for (const item of this.allItems) {
-      if (results.length >= limit) break;
+  /**
+   * The name a field has in a record, matching the given name without regard
+   * to case, or for a nested field path, the indexed path it refers to
+   */
+  private recordField(record: Record<string, unknown>, field: string): string {
+    if (field in record) return field;
+    return Object.keys(record).find(name => name.toLowerCase() === field.toLowerCase()) ?? this.resolveField(field);
+  }
 
-      // Check each searchable field
-      for (const field of this.searchableFields) {
-        if (!item[field]) continue;
+  /**
+   * Sort results by the given fields, then by relevance: edit distance
+   * (exact matches first), then score (higher score first)
+   */
+  private sortResults(results: ScoredPosting[], sort: SortField[] = []): void {
+    const byRelevance = (a: ScoredPosting, b: ScoredPosting) => a.distance - b.distance || b.score - a.score;
 
-        const fieldValue = String(item[field]).toLowerCase();
-        const words = fieldValue.split(/\s+/);
+    if (sort.length === 0) {
+      results.sort(byRelevance);
+      return;
+    }
 
-        // Check if any word starts with the character
-        const startsWithChar = words.some(word => word.startsWith(char));
+    // Look up each result's sort values once rather than on every comparison
+    const sorted = results.map(result => ({
+      result,
+      keys: sort.map(({ field }): SortValue =>
+        field === SCORE_FIELD ? result.score : sortValue(this.documents[result.docId], field)
+      )
+    }));
+
+    sorted.sort((a, b) => {
+      for (let index = 0; index < sort.length; index++) {
+        const aValue = a.keys[index];
+        const bValue = b.keys[index];
+        if (aValue === bValue) continue;
+
+        // Missing values go last in either direction
+        if (aValue === null) return 1;
+        if (bValue === null) return -1;
+
+        const comparison = compareSortValues(aValue, bValue);
+        if (comparison !== 0) return sort[index].order === 'asc' ? comparison : -comparison;
+      }
 
-        if (startsWithChar || fieldValue.includes(char)) {
-          const itemId = this.getItemId(item);
-          if (!seenItems.has(itemId)) {
-            results.push({ 
-              word: String(item[field]), 
-              data: item 
-            });
-            seenItems.add(itemId);
-            break; // Only add each item once
-          }
+      return byRelevance(a.result, b.result);
+    });
+
+    sorted.forEach(({ result }, index) => {
+      results[index] = result;
+    });
+  }
+
+  /**
+   * Count the values of each requested facet field over the filtered matches.
+   * A facet that is also filtered by value is counted without that filter,
+   * so the other values of a field stay available once one is selected.
+   * @param matches Matches of the query before filtering (null: all documents)
+   * @param results Matches after filtering
+   */
+  private countFacets(
+    matches: ScoredPosting[] | null,
+    results: ScoredPosting[],
+    options: SearchOptions
+  ): Record<string, FacetCount[]> {
+    const facets: Record<string, FacetCount[]> = {};
+    const size = options.facetSize ?? DEFAULT_FACET_SIZE;
+
+    for (const field of options.facets ?? []) {
+      let postings = results;
+
+      const terms = options.filter?.terms ?? {};
+      const ownFilter = Object.keys(terms).find(name => name.toLowerCase() === field.toLowerCase());
+      if (ownFilter !== undefined) {
+        const otherTerms = { ...terms };
+        delete otherTerms[ownFilter];
+        postings = this.applyFilter(matches ?? this.allDocuments(), { ...options.filter, terms: otherTerms });
+      }
+
+      facets[field] = countFacetValues(postings.map(posting => this.documents[posting.docId]), field, size);
+    }
+
+    return facets;
+  }
+
+  /**
+   * Evaluate a query AST into a scored posting list sorted by document ID.
+   * Returns null for a query whose terms all analyze to nothing, which
+   * places no restriction on the results.
+   */
+  private evaluateQuery(node: QueryNode, options: SearchOptions): ScoredPosting[] | null {
+    switch (node.type) {
+      case 'term':
+        return this.matchText(node.value, this.termFields(node.field, options), options);
+
+      case 'phrase':
+        return this.matchPhrase(node.value, this.termFields(node.field, options));
+
+      case 'and': {
+        // Intersect the positive operands, then remove anything matched by a negated one
+        const positives = node.children.filter(child => child.type !== 'not');
+        const negatives = node.children.filter(
+          (child): child is Extract<QueryNode, { type: 'not' }> => child.type === 'not'
+        );
+
+        let result: ScoredPosting[] | null = null;
+
+        for (const child of positives) {
+          const postings = this.evaluateQuery(child, options);
+          if (postings === null) continue;
+
+          result = result ? intersectScored(result, postings) : postings;
+          if (result.length === 0) return result;
         }
+
+        for (const negative of negatives) {
+          const postings = this.evaluateQuery(negative.child, options);
+          if (postings === null) continue;
+
+          result = differenceScored(result ?? this.allDocuments(), postings);
+          if (result.length === 0) break;
+        }
+
+        return result;
       }
+
+      case 'or': {
+        const results = node.children
+          .map(child => this.evaluateQuery(child, options))
+          .filter((postings): postings is ScoredPosting[] => postings !== null);
+
+        if (results.length === 0) return null;
+        return results.reduce((result, postings) => unionScored(result, postings), []);
+      }
+
+      case 'not': {
+        const postings = this.evaluateQuery(node.child, options);
+        return postings === null ? null : differenceScored(this.allDocuments(), postings);
+      }
+
+      case 'range':
+        return this.matchRange(node.field, node.range);
+
+      case 'wildcard':
+      case 'regex':
+        return this.matchPattern(node.value, node.type, this.termFields(node.field, options), options);
     }
+  }
 
-    return results;
+  /**
+   * Find the documents containing a word that matches a wildcard or regular
+   * expression. Literal characters of the pattern are normalized like
+   * indexed words (e.g. lower cased). A wildcard that is only a prefix
+   * (`5*`) is an ordinary prefix search, without the pattern limits.
+   * @throws PatternLimitError when the pattern matches too many words or takes too long
+   */
+  private matchPattern(
+    pattern: string,
+    type: 'wildcard' | 'regex',
+    fields: string[] | undefined,
+    options: SearchOptions
+  ): ScoredPosting[] {
+    if (type === 'wildcard' && PREFIX_PATTERN.test(pattern)) {
+      // Characters are normalized one at a time like pattern literals, so the prefix isn't stemmed
+      const prefix = Array.from(pattern.replace(/\*+$/, ''))
+        .map(char => this.analyzer.normalize(char) || char)
+        .join('');
+      return this.scoreMatches(this.searchPrefix(this.root, prefix, false, 1), fields);
+    }
+
+    const automaton = compilePattern(pattern, type, text => this.analyzer.normalize(text));
+    const limits = { ...DEFAULT_PATTERN_LIMITS, ...options.patternLimits };
+    return this.scoreMatches(this.searchPattern(automaton, pattern, limits), fields);
   }
 
   /**
-   * Traditional prefix search
+   * Find the documents whose value in a numeric or date field is within the
+   * bounds. Range matches don't add to the score. A field without typed
+   * values matches nothing.
    */
-  private searchPrefix(
-    prefix: string,
-    results: Array<{ data: Record<string, unknown>; score: number }>,
-    seenItems: Set<Record<string, unknown>>,
-    limit: number
-  ): void {
+  private matchRange(field: string, bounds: RangeBounds): ScoredPosting[] {
+    const index = this.findTypedField(field);
+    if (!index) return [];
+
+    return index.range(bounds).map(docId => ({ docId, score: 0, distance: 0 }));
+  }
+
+  /**
+   * Keep only the postings that pass every filter
+   */
+  private applyFilter(postings: ScoredPosting[], filter: SearchFilter): ScoredPosting[] {
+    let result = postings;
+
+    for (const [field, bounds] of Object.entries(filter.range ?? {})) {
+      result = intersectScored(result, this.matchRange(field, bounds));
+      if (result.length === 0) return result;
+    }
+
+    for (const [field, values] of Object.entries(filter.terms ?? {})) {
+      result = result.filter(posting => hasFacetValue(this.documents[posting.docId], field, values));
+      if (result.length === 0) return result;
+    }
+
+    return result;
+  }
+
+  /**
+   * Fields a query term is restricted to: its own `field:` scope, else the
+   * search's field filter, else none (all fields)
+   */
+  private termFields(field: string | undefined, options: SearchOptions): string[] | undefined {
+    if (field) return [this.resolveField(field)];
+    if (options.fields && options.fields.length > 0) {
+      return options.fields.map(name => this.resolveField(name));
+    }
+    return undefined;
+  }
+
+  /**
+   * Every document in the table with a zero score - the universe for negation
+   */
+  private allDocuments(): ScoredPosting[] {
+    return this.documents.map((_, docId) => ({ docId, score: 0, distance: 0 }));
+  }
+
+  /**
+   * Analyze the text of a query term and find the documents matching it.
+   * Text that analyzes into several words (e.g. `t-shirt` into `t` and
+   * `shirt`) must match all of them; alternatives for the same word are
+   * combined. Returns null when the text analyzes to nothing.
+   */
+  private matchText(text: string, fields: string[] | undefined, options: SearchOptions): ScoredPosting[] | null {
+    let result: ScoredPosting[] | null = null;
+
+    for (const analysis of this.analyzeQuery(text, fields)) {
+      const groups = groupByPosition(analysis.tokens);
+      if (groups.length === 0) continue;
+
+      let postings: ScoredPosting[] | null = null;
+      for (const group of groups) {
+        const groupPostings = group.tokens
+          .map(token => this.matchToken(token, analysis.fields, options))
+          .reduce((merged, tokenPostings) => unionScored(merged, tokenPostings), []);
+
+        postings = postings ? intersectScored(postings, groupPostings) : groupPostings;
+        if (postings.length === 0) break;
+      }
+
+      result = result ? unionScored(result, postings ?? []) : postings;
+    }
+
+    return result;
+  }
+
+  /**
+   * Analyze query text for the fields it is matched in. Fields with their
+   * own tokenizer or phonetic encoding get their own analysis of the text,
+   * which is only matched in those fields; otherwise there's a single analysis.
+   */
+  private analyzeQuery(text: string, fields: string[] | undefined): Array<{ fields: string[] | undefined; tokens: Token[] }> {
+    if (!this.analyzer.hasFieldAnalysis()) {
+      return [{ fields, tokens: this.analyzer.analyze(text) }];
+    }
+
+    // Fields that are analyzed the same way share an analysis
+    const fieldsByAnalysis = new Map<string, string[]>();
+    for (const field of fields ?? this.getIndexedFields()) {
+      const key = this.analyzer.getFieldAnalysisKey(field);
+      fieldsByAnalysis.set(key, [...(fieldsByAnalysis.get(key) ?? []), field]);
+    }
+
+    return Array.from(fieldsByAnalysis.values(), analysisFields => ({
+      fields: analysisFields,
+      tokens: this.analyzer.analyze(text, analysisFields[0])
+    }));
+  }
+
+  /**
+   * Find the documents matching one analyzed token. Derived forms (e.g. stems)
+   * only match whole derived forms in their own index, at a lower weight.
+   */
+  private matchToken(token: Token, fields: string[] | undefined, options: SearchOptions): ScoredPosting[] {
+    if (!token.kind) {
+      return this.matchTerm(token.text, fields, options);
+    }
+
+    // Phonetic matching is opt-in per search
+    if (token.kind === 'phonetic' && !options.phonetic) return [];
+
+    const root = this.derivedRoots.get(token.kind);
+    if (!root) return [];
+    return this.scoreMatches(this.searchPrefix(root, token.text, true, DERIVED_MATCH_WEIGHTS[token.kind]), fields);
+  }
+
+  /**
+   * Find the documents matching a single analyzed query term, optionally
+   * only in the given fields
+   */
+  private matchTerm(term: string, fields: string[] | undefined, options: SearchOptions): ScoredPosting[] {
+    const matchMode = options.matchMode ?? 'prefix';
+    let matches: WordMatch[];
+
+    if (options.fuzzy) {
+      const fuzzyOptions = options.fuzzy === true ? {} : options.fuzzy;
+      matches = this.fuzzySearch(this.root, term, fuzzyOptions, 1);
+
+      // In infix mode, words that contain a near match part-way through also count
+      if (matchMode === 'infix') {
+        matches.push(...this.fuzzySearch(this.getSuffixRoot(), term, fuzzyOptions, INFIX_MATCH_WEIGHT));
+      }
+    } else {
+      matches = this.searchPrefix(this.root, term, matchMode === 'exact', 1);
+
+      // Infix matches come from the suffix index
+      if (matchMode === 'infix') {
+        matches.push(...this.searchPrefix(this.getSuffixRoot(), term, false, INFIX_MATCH_WEIGHT));
+      }
+    }
+
+    return this.scoreMatches(matches, fields);
+  }
+
+  /**
+   * Find the documents containing the words of a phrase next to each other,
+   * in order, within a single field. Candidates come from intersecting the
+   * words' posting lists and are then checked against the stored field values.
+   * Returns null when the phrase analyzes to nothing.
+   */
+  private matchPhrase(text: string, fields: string[] | undefined): ScoredPosting[] | null {
+    let result: ScoredPosting[] | null = null;
+
+    for (const analysis of this.analyzeQuery(text, fields)) {
+      const groups = groupByPosition(analysis.tokens);
+      if (groups.length === 0) continue;
+
+      let candidates: ScoredPosting[] | null = null;
+      for (const group of groups) {
+        const postings = group.tokens
+          .map(token => this.matchToken(token, analysis.fields, { matchMode: 'exact' }))
+          .reduce((merged, tokenPostings) => unionScored(merged, tokenPostings), []);
+
+        candidates = candidates ? intersectScored(candidates, postings) : postings;
+        if (candidates.length === 0) break;
+      }
+
+      const matches = (candidates ?? []).filter(
+        candidate => this.containsPhrase(candidate.docId, groups, analysis.fields)
+      );
+      result = result ? unionScored(result, matches) : matches;
+    }
+
+    return result;
+  }
+
+  /**
+   * Check whether any of the given (or indexed) fields of a document contains
+   * the phrase's words at the same relative positions
+   */
+  private containsPhrase(
+    docId: number,
+    groups: Array<{ position: number; tokens: Token[] }>,
+    scopedFields?: string[]
+  ): boolean {
+    const item = this.documents[docId];
+    const firstPosition = groups[0].position;
+
+    // Imported tries don't know their fields, so fall back to every field of the record
+    const fields = scopedFields
+      ?? (this.searchableFields.length > 0 ? this.searchableFields : Object.keys(item));
+
+    for (const field of fields) {
+      for (const tokens of this.analyzeFieldValues(item, field)) {
+        // Tokens of the field value by position
+        const positions = new Map<number, Set<string>>();
+        for (const token of tokens) {
+          const keys = positions.get(token.position) ?? new Set<string>();
+          keys.add(tokenKey(token));
+          positions.set(token.position, keys);
+        }
+
+        for (const start of positions.keys()) {
+          const matches = groups.every(group => {
+            const keys = positions.get(start + group.position - firstPosition);
+            return keys !== undefined && group.tokens.some(token => keys.has(tokenKey(token)));
+          });
+          if (matches) return true;
+        }
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Typo-tolerant prefix search. Walks the trie while maintaining a row of the
+   * edit distance matrix between the query and the current path, pruning any
+   * branch whose row can no longer come within the allowed number of edits.
+   * A word matches when one of its prefixes is within the edit budget, or
+   * with `wholeWords`, when the whole word is.
+   */
+  private fuzzySearch(
+    root: ZipTrieNode,
+    query: string,
+    options: FuzzyOptions,
+    weight: number,
+    wholeWords: boolean = false
+  ): WordMatch[] {
+    // A one-character query with one edit would match everything, so shorter
+    // queries get a smaller edit budget
+    const maxEdits = Math.max(0, Math.min(
+      options.maxEdits ?? 1,
+      MAX_FUZZY_EDITS,
+      query.length - 1
+    ));
+    const transpositions = options.transpositions ?? false;
+
+    const matches: WordMatch[] = [];
+
+    const record = (node: ZipTrieNode, word: string, distance: number) => {
+      if (node.isEndOfWord) {
+        matches.push({ node, word, distance, weight: weight * this.coverage(query, word) });
+      }
+    };
+
+    // Every word below a node matches once one of its prefixes is within budget
+    const recordSubtree = (node: ZipTrieNode, word: string, distance: number) => {
+      record(node, word, distance);
+      for (const childNode of node.children.values()) {
+        recordSubtree(childNode, word + childNode.label, distance);
+      }
+    };
+
+    const walk = (
+      node: ZipTrieNode,
+      path: string,
+      previousRow: number[],
+      rowBeforePrevious: number[] | null,
+      best: number
+    ) => {
+      const word = path + node.label;
+      let row = previousRow;
+      let rowBefore = rowBeforePrevious;
+
+      // Advance the edit distance matrix one character of the edge label at a time
+      for (const char of node.label) {
+        const nextRow = [row[0] + 1];
+        const previousChar = path.length > 0 ? path[path.length - 1] : '';
+
+        for (let j = 1; j <= query.length; j++) {
+          const substitutionCost = query[j - 1] === char ? 0 : 1;
+          let distance = Math.min(
+            row[j] + 1,                      // insertion
+            nextRow[j - 1] + 1,              // deletion
+            row[j - 1] + substitutionCost    // substitution
+          );
+
+          // Swapped adjacent characters count as a single edit
+          if (
+            transpositions && rowBefore && j > 1 &&
+            query[j - 1] === previousChar && query[j - 2] === char
+          ) {
+            distance = Math.min(distance, rowBefore[j - 2] + 1);
+          }
+
+          nextRow.push(distance);
+        }
+
+        path += char;
+        rowBefore = row;
+        row = nextRow;
+        best = Math.min(best, row[query.length]);
+
+        // No longer prefix of this path can get back within budget
+        if (Math.min(...row) > maxEdits) {
+          if (best <= maxEdits && !wholeWords) {
+            recordSubtree(node, word, best);
+          }
+          return;
+        }
+      }
+
+      const distance = wholeWords ? row[query.length] : best;
+      if (distance <= maxEdits) {
+        record(node, word, distance);
+      }
+
+      for (const childNode of node.children.values()) {
+        walk(childNode, word, row, rowBefore, best);
+      }
+    };
+
+    // The first row is the cost of deleting each character of the query
+    const firstRow = Array.from({ length: query.length + 1 }, (_, j) => j);
+    walk(root, '', firstRow, null, query.length === 0 ? 0 : Infinity);
+
+    return matches;
+  }
+
+  /**
+   * Prefix search below the given root. In exact mode only the word that
+   * equals the prefix is matched.
+   */
+  private searchPrefix(root: ZipTrieNode, prefix: string, exact: boolean, weight: number): WordMatch[] {
     // Find the node corresponding to the prefix
-    const current = this.findNode(prefix);
+    const match = this.findNode(prefix, root);
+
+    if (!match) return []; // Prefix not found
 
-    if (!current) return; // Prefix not found
+    const { node, path } = match;
+    const matches: WordMatch[] = [];
+
+    if (exact) {
+      // The prefix must end exactly on a word
+      if (node.isEndOfWord && path === prefix) {
+        matches.push({ node, word: path, distance: 0, weight });
+      }
+      return matches;
+    }
 
     // Collect all words that start with this prefix
-    this.collectWords(current, prefix, results, seenItems, limit);
+    this.collectWords(node, path, (wordNode, word) => {
+      matches.push({ node: wordNode, word, distance: 0, weight: weight * this.coverage(prefix, word) });
+    });
+
+    return matches;
   }
 
   /**
-   * Find a node in the trie that matches the given prefix
+   * Find the words matched by an automaton by walking the trie with it. Each
+   * edge label is read through the automaton, and a branch is dropped as soon
+   * as no state survives, so only the parts of the trie the pattern can
+   * reach are visited.
    */
-  private findNode(prefix: string): ZipTrieNode | null {
-    if (!prefix) return this.root;
+  private searchPattern(automaton: Automaton, pattern: string, limits: Required<PatternLimits>): WordMatch[] {
+    const matches: WordMatch[] = [];
+    const deadline = performance.now() + limits.timeoutMs;
+    let visited = 0;
+
+    // `pending` holds the first half of a surrogate pair split across edge labels
+    const walk = (node: ZipTrieNode, word: string, states: number[], pending: string) => {
+      if (++visited % 256 === 0 && performance.now() > deadline) {
+        throw new PatternLimitError(`Pattern "${pattern}" took longer than ${limits.timeoutMs}ms to expand. Make it more specific`);
+      }
 
-    let current = this.root;
-    const lowerPrefix = prefix.toLowerCase().trim();
+      if (node.isEndOfWord && node.postings.size > 0 && !pending && automaton.accepts(states)) {
+        if (matches.length >= limits.maxExpansions) {
+          throw new PatternLimitError(`Pattern "${pattern}" matches more than ${limits.maxExpansions} words. Make it more specific`);
+        }
+        matches.push({ node, word, distance: 0, weight: 1 });
+      }
 
-    console.log(`Finding node for prefix: "${lowerPrefix}", root children:`, Array.from(this.root.children.keys()));
+      for (const child of node.children.values()) {
+        const chars = Array.from(pending + child.label);
+        const last = chars[chars.length - 1];
+        const carry = last.length === 1 && /[\uD800-\uDBFF]/.test(last) ? (chars.pop() as string) : '';
 
-    // Navigate through the trie for each character in the prefix
-    for (let i = 0; i < lowerPrefix.length; i++) {
-      const char = lowerPrefix[i];
+        let next = states;
+        for (const char of chars) {
+          next = automaton.step(next, char);
+          if (next.length === 0) break;
+        }
+        if (next.length > 0) walk(child, word + child.label, next, carry);
+      }
+    };
+
+    walk(this.root, '', automaton.initial(), '');
+    return matches;
+  }
+
+  /**
+   * Find the node in the trie under which all words with the given prefix live.
+   * The prefix may end part-way through the node's edge label, so the full
+   * path to the node is returned alongside it.
+   */
+  private findNode(prefix: string, root: ZipTrieNode = this.root): { node: ZipTrieNode; path: string } | null {
+    if (!prefix) return { node: root, path: '' };
+
+    let current = root;
+    let path = '';
+
+    console.log(`Finding node for prefix: "${prefix}", root children:`, Array.from(root.children.keys()));
+
+    // Navigate through the trie one edge label at a time
+    let position = 0;
+    while (position < prefix.length) {
+      const char = prefix[position];
 
       // Process all characters (removed the filter that was skipping non-alphanumeric characters)
       console.log(`Checking for character: '${char}', available children:`, Array.from(current.children.keys()));
 
-      if (!current.children.has(char)) {
-        console.log(`Character '${char}' not found in trie at position ${i}`);
+      const child = current.children.get(char);
+      if (!child) {
+        console.log(`Character '${char}' not found in trie at position ${position}`);
         return null; // Prefix not found
       }
 
-      current = current.children.get(char)!;
+      // The remaining prefix must agree with the edge label for as far as both go
+      const matched = this.commonPrefixLength(child.label, prefix, position);
+      if (matched < child.label.length && position + matched < prefix.length) {
+        console.log(`Prefix diverges from edge '${child.label}' at position ${position + matched}`);
+        return null;
+      }
+
+      current = child;
+      path += child.label;
+      position += matched;
     }
 
-    console.log(`Found node for prefix: "${lowerPrefix}", has ${current.items.length} items`);
-    return current;
+    console.log(`Found node for prefix: "${prefix}"`);
+    return { node: current, path };
   }
 
   /**
-   * Collect all words from a given node
+   * Call the visitor for every word at or below a given node
    */
   private collectWords(
     node: ZipTrieNode,
     prefix: string,
-    results: Array<{ data: Record<string, unknown>; score: number }>,
-    seenItems: Set<Record<string, unknown>>,
-    limit: number
+    visit: (node: ZipTrieNode, word: string) => void
   ): void {
-    if (results.length >= limit) return;
-
-    // If this node is an end of word, add its items to results
-    if (node.isEndOfWord && node.items.length > 0) {
-      for (const item of node.items) {
-        if (results.length >= limit) break;
-
-        // Only add the item if it's not already in the results
-        if (!seenItems.has(item)) {
-          // Calculate score based on how closely the item matches the prefix
-          let score = 1.0; // Exact match gets highest score
-          
-          // For prefix matches, score is slightly lower
-          if (prefix.length > 0) {
-            for (const field of this.searchableFields) {
-              if (item[field] && String(item[field]).toLowerCase().startsWith(prefix)) {
-                // Longer matches get higher scores
-                score = 0.9 + (prefix.length / String(item[field]).length) * 0.1;
-                break;
-              } else if (item[field] && String(item[field]).toLowerCase().includes(prefix)) {
-                // Contains but doesn't start with - lower score
-                score = 0.7;
-                break;
-              }
-            }
-          }
-
-          results.push({ 
-            data: item,
-            score: score
-          });
-          seenItems.add(item);
-        }
-      }
+    if (node.isEndOfWord && node.postings.size > 0) {
+      visit(node, prefix);
     }
 
     // Continue searching in all child nodes
-    for (const [char, childNode] of node.children.entries()) {
-      this.collectWords(childNode, prefix + char, results, seenItems, limit);
+    for (const childNode of node.children.values()) {
+      this.collectWords(childNode, prefix + childNode.label, visit);
     }
   }
 
   /**
-   * Search through all items for any matches
+   * Share of a matched word covered by the query term. Completing a short
+   * prefix into a long word is weaker evidence than typing the whole word.
    */
-  private searchAllItems(
-    query: string,
-    results: Array<{ word: string; data: Record<string, unknown> }>,
-    seenItems: Set<string>,
-    limit: number
-  ): void {
-    // Search through all items directly
-    for (const item of this.allItems) {
-      if (results.length >= limit) break;
-
-      // Check each searchable field
-      for (const field of this.searchableFields) {
-        if (!item[field]) continue;
-
-        const fieldValue = String(item[field]).toLowerCase();
-
-        if (fieldValue.includes(query)) {
-          const itemId = this.getItemId(item);
-          if (!seenItems.has(itemId)) {
-            results.push({ 
-              word: String(item[field]), 
-              data: item 
-            });
-            seenItems.add(itemId);
-            break; // Only add each item once
-          }
+  private coverage(term: string, word: string): number {
+    return word.length > term.length ? term.length / word.length : 1;
+  }
+
+  /**
+   * Score the documents containing the matched words. A document's score for
+   * a word is the BM25 score summed over the searched fields, each multiplied
+   * by the field's weight; when several
+   * words match the same term, the document keeps its closest match (by edit
+   * distance) and, among those, its best score.
+   */
+  private scoreMatches(matches: WordMatch[], fields: string[] | undefined): ScoredPosting[] {
+    const best = new Map<number, { score: number; distance: number }>();
+
+    for (const match of matches) {
+      const wordScores = new Map<number, number>();
+
+      for (const [field, postings] of match.node.postings) {
+        if (fields && !fields.includes(field)) continue;
+
+        const documentFrequency = postings.docIds.length;
+        const fieldWeight = this.fieldWeights.get(normalizeFieldPath(field)) ?? 1;
+        postings.docIds.forEach((docId, index) => {
+          const score = fieldWeight * this.bm25(field, docId, postings.frequencies[index], documentFrequency);
+          wordScores.set(docId, (wordScores.get(docId) ?? 0) + score);
+        });
+      }
+
+      for (const [docId, wordScore] of wordScores) {
+        const score = wordScore * match.weight;
+        const existing = best.get(docId);
+        if (
+          !existing ||
+          match.distance < existing.distance ||
+          (match.distance === existing.distance && score > existing.score)
+        ) {
+          best.set(docId, { score, distance: match.distance });
         }
       }
     }
+
+    // Boolean operators merge posting lists, which must be in document ID order
+    return Array.from(best, ([docId, { score, distance }]) => ({ docId, score, distance }))
+      .sort((a, b) => a.docId - b.docId);
+  }
+
+  /**
+   * BM25 score of a word in one field of a document
+   * @param termFrequency Occurrences of the word in the field
+   * @param documentFrequency Number of documents with the word in the field
+   */
+  private bm25(field: string, docId: number, termFrequency: number, documentFrequency: number): number {
+    const stats = this.fieldStats.get(field);
+
+    // Rarer words carry more weight
+    const documentCount = Math.max(stats?.documentCount ?? this.documents.length, documentFrequency);
+    const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+
+    // Matches in fields longer than average count for less. Fields without
+    // length statistics (postings of unknown origin) are not normalised.
+    const length = this.fieldLengths.get(field)?.[docId];
+    const averageLength = stats && stats.documentCount > 0 ? stats.totalLength / stats.documentCount : 0;
+    const lengthNorm = length !== undefined && averageLength > 0
+      ? 1 - BM25_B + BM25_B * (length / averageLength)
+      : 1;
+
+    return idf * (termFrequency * (BM25_K1 + 1)) / (termFrequency + BM25_K1 * lengthNorm);
   }
 
   /**
@@ -361,8 +1485,11 @@ export class ZipTrie {
 
     // If this is not a batch load, initialize the trie
     if (!isBatch) {
-      // Store the data and fields for direct access
-      this.allItems = data;
+      // Clear existing trie and document table
+      this.clear();
+      console.log('Trie cleared for new data loading');
+
+      // Store the fields for scoring
       this.searchableFields = fields;
 
       // Always log sample data for debugging
@@ -370,14 +1497,8 @@ export class ZipTrie {
       data.slice(0, 2).forEach((item, index) => {
         console.log(`Item ${index}:`, JSON.stringify(item));
       });
-
-      // Clear existing trie
-      this.clear();
-      console.log('Trie cleared for new data loading');
     } else {
-      // For batch loads, append to existing data
-      this.allItems = this.allItems.concat(data);
-      
+      // For batch loads, new documents are appended to the existing document table
       // Always log a sample for batches
       if (data.length > 0) {
         console.log('Batch sample item:', JSON.stringify(data[0]));
@@ -403,46 +1524,33 @@ export class ZipTrie {
     // Process each item
     for (let itemIdx = 0; itemIdx < totalItems; itemIdx++) {
       const item = data[itemIdx];
+      const docId = this.addDocument(item);
       
-      // For each searchable field
+      // For each searchable field (a field path may hold several values, e.g. array elements)
       for (const field of fields) {
-        if (!item[field]) continue;
+        const values = this.analyzeFieldValues(item, field);
+        if (values.length === 0) continue;
 
-        const fieldValue = String(item[field]);
         indexedFields++;
         
         // Log sample values for debugging
         if (itemIdx < 5) {
-          console.log(`Sample field ${field} with value: "${fieldValue}"`);
+          console.log(`Sample field ${field} with values:`, JSON.stringify(fieldPathValues(item, field)));
         }
 
-        // Insert the entire field value
-        this.insert(fieldValue, item, false);
-
-        // Also insert individual words
-        const words = fieldValue.split(/\s+/);
-        for (const word of words) {
-          if (word.length > 0) {
+        // Insert the analyzed words - query terms go through the same analyzer,
+        // and quoted phrases are checked against the record
+        let length = 0;
+        for (const tokens of values) {
+          for (const token of tokens) {
             indexedWords++;
-            this.insert(word, item, true);
-
-            // For longer words, also index prefixes
-            if (word.length > 2) {
-              // Index all prefixes for better search results
-              for (let i = 2; i <= word.length; i++) {
-                this.insert(word.substring(0, i), item, true);
-              }
-            }
-          }
-        }
-        
-        // Additionally, index the entire field value as a single string with all characters
-        // This ensures searches with special characters or spaces will work
-        if (fieldValue.length > 0) {
-          for (let i = 1; i <= fieldValue.length; i++) {
-            this.insert(fieldValue.substring(0, i), item, true);
+            // Prefixes don't need their own entries - a prefix search
+            // collects every word below the node the prefix ends on
+            this.indexToken(token, docId, field);
           }
+          length += this.countPositions(tokens);
         }
+        this.recordFieldLength(docId, field, length);
       }
       
       // Log progress for large datasets
@@ -474,6 +1582,226 @@ export class ZipTrie {
    */
   clear(): void {
     this.root = this.createNode('');
+    this.suffixRoot = null;
+    this.derivedRoots.clear();
+    this.documents = [];
+    this.indexedFields.clear();
+    this.fieldLengths.clear();
+    this.fieldStats.clear();
+    this.typedFields.clear();
+    this.phraseRoot = null;
+    this.suggestionCache = null;
+  }
+
+  /**
+   * Correct the spelling of the query terms that match nothing, for "did you
+   * mean" suggestions. Each unknown word is replaced by the indexed word
+   * within two edits (one for words of up to four characters) found in the
+   * most documents, counting each edit as a tenfold drop. Terms under NOT
+   * are left alone. Returns null if there was nothing to correct.
+   * @param query The search query, or an already parsed query
+   * @param options The options the query is searched with
+   */
+  correctQuery(query: string | QueryNode | null, options: SearchOptions = {}): QueryNode | null {
+    const parsedQuery = typeof query === 'string' ? parseQuery(query, { fields: this.getIndexedFields() }) : query;
+    if (!parsedQuery) return null;
+
+    let changed = false;
+
+    const correct = (node: QueryNode): QueryNode => {
+      switch (node.type) {
+        case 'term': {
+          const words = this.correctWords(node.value, this.termFields(node.field, options), options);
+          if (!words) return node;
+
+          changed = true;
+          const terms = words.map((word): QueryNode => ({ type: 'term', value: word, field: node.field }));
+          return terms.length === 1 ? terms[0] : { type: 'and', children: terms };
+        }
+
+        case 'phrase': {
+          const fields = this.termFields(node.field, options);
+          const terms = node.terms.map(term => {
+            const words = this.correctWords(term, fields, { matchMode: 'exact' });
+            return words ? words.join(' ') : term;
+          });
+          if (terms.every((term, index) => term === node.terms[index])) return node;
+
+          changed = true;
+          return { ...node, value: terms.join(' '), terms };
+        }
+
+        case 'and':
+        case 'or':
+          return { type: node.type, children: node.children.map(child => correct(child)) };
+
+        case 'not':
+        case 'range':
+        case 'wildcard':
+        case 'regex':
+          return node;
+      }
+    };
+
+    const corrected = correct(parsedQuery);
+    return changed ? corrected : null;
+  }
+
+  /**
+   * Correct the words of a query term that matches nothing. Returns the
+   * analyzed words with unknown ones replaced, or null if the term matches
+   * or none of its words could be corrected.
+   */
+  private correctWords(text: string, fields: string[] | undefined, options: SearchOptions): string[] | null {
+    const matches = this.matchText(text, fields, options);
+    if (!matches || matches.length > 0) return null;
+
+    let changed = false;
+    const words = groupByPosition(this.analyzer.analyze(text)).map(group => {
+      const word = (group.tokens.find(token => !token.kind) ?? group.tokens[0]).text;
+      if (this.matchToken({ text: word, position: 0, start: 0, end: 0 }, fields, options).length > 0) return word;
+
+      const correction = this.closestWord(word, fields);
+      if (correction) changed = true;
+      return correction ?? word;
+    });
+
+    return changed ? words : null;
+  }
+
+  /**
+   * Find the indexed word most likely meant by a misspelled word: close in
+   * edit distance and common in the given fields
+   */
+  private closestWord(word: string, fields: string[] | undefined): string | null {
+    const maxEdits = Array.from(word).length <= 4 ? 1 : 2;
+    let best: { word: string; weight: number } | null = null;
+
+    for (const match of this.fuzzySearch(this.root, word, { maxEdits, transpositions: true }, 1, true)) {
+      const documentCount = this.nodePostings(match.node, fields).length;
+      if (documentCount === 0 || match.word === word) continue;
+
+      const weight = documentCount / CORRECTION_EDIT_PENALTY ** match.distance;
+      if (!best || weight > best.weight || (weight === best.weight && match.word < best.word)) {
+        best = { word: match.word, weight };
+      }
+    }
+
+    return best ? best.word : null;
+  }
+
+  /**
+   * Complete partly typed text into the indexed words and two-word phrases
+   * starting with it, most common first: `iph` gives `iphone` and
+   * `iphone case`. Text of more than two words keeps its earlier words and
+   * completes the last two; text ending in a space completes the next word.
+   * @param prefix The text typed so far
+   * @param limit Number of suggestions (at most MAX_SUGGESTIONS)
+   */
+  suggest(prefix: string, limit: number = 10): Suggestion[] {
+    const words = groupByPosition(this.analyzer.analyze(prefix))
+      .map(group => (group.tokens.find(token => !token.kind) ?? group.tokens[0]).text);
+    if (words.length === 0) return [];
+
+    let kept: string[];
+    let candidates: Suggestion[];
+
+    if (/\s$/.test(prefix)) {
+      // The next word hasn't been started, so complete phrases starting with the last word
+      kept = words.slice(0, -1);
+      candidates = [...this.completions(this.getPhraseRoot(), phraseWord(words[words.length - 1]) + ' ')];
+    } else if (words.length === 1) {
+      kept = [];
+      candidates = [...this.completions(this.root, words[0]), ...this.completions(this.getPhraseRoot(), phraseWord(words[0]))];
+    } else {
+      kept = words.slice(0, -2);
+      candidates = [...this.completions(this.getPhraseRoot(), words.slice(-2).map(phraseWord).join(' '))];
+    }
+
+    return candidates
+      .sort(bySuggestionRank)
+      .slice(0, Math.max(0, Math.min(limit, MAX_SUGGESTIONS)))
+      .map(suggestion => ({ text: [...kept, suggestion.text].join(' '), count: suggestion.count }));
+  }
+
+  /**
+   * The most common words starting with a key below the given root
+   */
+  private completions(root: ZipTrieNode, key: string): Suggestion[] {
+    if (!key) return [];
+
+    const found = this.findNode(key, root);
+    return found ? this.topWords(found.node, found.path) : [];
+  }
+
+  /**
+   * The most common words at or below a node. Only the nodes suggestions are
+   * asked for are cached, up to SUGGESTION_CACHE_SIZE of them, until the
+   * postings change.
+   */
+  private topWords(node: ZipTrieNode, word: string): Suggestion[] {
+    if (!this.suggestionCache) {
+      this.suggestionCache = new Map<ZipTrieNode, Suggestion[]>();
+    }
+    const cache = this.suggestionCache;
+
+    const cached = cache.get(node);
+    if (cached) return cached;
+
+    const candidates: Suggestion[] = [];
+    this.collectWords(node, word, (wordNode, text) => {
+      candidates.push({ text, count: this.nodePostings(wordNode).length });
+    });
+
+    const top = candidates.sort(bySuggestionRank).slice(0, MAX_SUGGESTIONS);
+    if (cache.size >= SUGGESTION_CACHE_SIZE) {
+      cache.delete(cache.keys().next().value as ZipTrieNode);
+    }
+    cache.set(node, top);
+    return top;
+  }
+
+  /**
+   * Get the phrase index, building it if the documents changed since it was last used
+   */
+  private getPhraseRoot(): ZipTrieNode {
+    if (!this.phraseRoot) {
+      this.phraseRoot = this.buildPhraseIndex();
+    }
+    return this.phraseRoot;
+  }
+
+  /**
+   * Build the index of two-word phrases from the indexed fields of every
+   * document. Words are paired as analyzed but not stemmed, without the
+   * punctuation around them, and only when next to each other; overlapping
+   * tokens such as CJK bigrams aren't paired. Adding the phrases leaves the
+   * suggestion cache of the word trie alone.
+   */
+  private buildPhraseIndex(): ZipTrieNode {
+    const phraseRoot = this.createNode('');
+    const fields = this.getIndexedFields().filter(field => field !== UNKNOWN_FIELD);
+
+    this.documents.forEach((item, docId) => {
+      for (const field of fields) {
+        for (const tokens of this.analyzeFieldValues(item, field)) {
+          const words = tokens.filter(token => !token.kind);
+          for (let index = 1; index < words.length; index++) {
+            const previous = words[index - 1];
+            const word = words[index];
+            if (word.position !== previous.position + 1 || word.start < previous.end) continue;
+
+            const first = phraseWord(previous.text);
+            const second = phraseWord(word.text);
+            if (!first || !second) continue;
+
+            addFieldPosting(this.insertNode(phraseRoot, `${first} ${second}`), field, docId);
+          }
+        }
+      }
+    });
+
+    return phraseRoot;
   }
 
   /**
@@ -489,8 +1817,8 @@ export class ZipTrie {
         words.push(prefix);
       }
 
-      for (const [char, childNode] of node.children.entries()) {
-        traverse(childNode, prefix + char);
+      for (const childNode of node.children.values()) {
+        traverse(childNode, prefix + childNode.label);
       }
     };
 
@@ -509,29 +1837,35 @@ export class ZipTrie {
    * Get the search path for a query to visualize how the search traverses the trie
    */
   getSearchPath(query: string): TrieVisualizationNode[] {
-    const path: TrieVisualizationNode[] = [];
+    // Normalize the query the same way indexed words are
+    return this.walkPath(this.analyzer.normalize(query)).map(node => this.convertNode(node));
+  }
+
+  /**
+   * Collect the nodes visited while following a query down the trie, starting
+   * with the root. A node is included when the query matches at least the
+   * start of its edge label; traversal stops at the first mismatch.
+   */
+  private walkPath(query: string): ZipTrieNode[] {
+    const nodes: ZipTrieNode[] = [this.root];
     let current = this.root;
-    
-    // Add the root node to the path
-    path.push(this.convertNode(current));
-    
-    // Convert query to lowercase for case-insensitive search
-    const lowerQuery = query.toLowerCase();
-    
-    // Traverse the trie based on the query
-    for (let i = 0; i < lowerQuery.length; i++) {
-      const char = lowerQuery[i];
-      
-      if (current.children.has(char)) {
-        current = current.children.get(char)!;
-        path.push(this.convertNode(current));
-      } else {
-        // If we can't find the character, stop traversal
-        break;
-      }
+    let position = 0;
+
+    while (position < query.length) {
+      const child = current.children.get(query[position]);
+      if (!child) break;
+
+      nodes.push(child);
+
+      // Stop if the query ends or diverges inside this edge label
+      const matched = this.commonPrefixLength(child.label, query, position);
+      if (matched < child.label.length) break;
+
+      current = child;
+      position += matched;
     }
-    
-    return path;
+
+    return nodes;
   }
 
   /**
@@ -548,9 +1882,9 @@ export class ZipTrie {
     children.sort((a, b) => a.char.localeCompare(b.char));
     
     return {
-      char: node.char || '',
+      char: node.label || '',
       isEndOfWord: node.isEndOfWord,
-      itemCount: node.items.length,
+      itemCount: this.nodePostings(node).length,
       children
     };
   }
@@ -559,35 +1893,13 @@ export class ZipTrie {
    * Find a path in the trie for a given prefix
    */
   findPath(prefix: string): TrieVisualizationNode[] | null {
-    let current = this.root;
-    const path: TrieVisualizationNode[] = [];
-    const lowerPrefix = prefix.toLowerCase();
-
-    // Add the root to the path
-    path.push({
-      char: current.char,
-      isEndOfWord: current.isEndOfWord,
-      itemCount: current.items.length,
+    // Return the path so far if we can't go further
+    return this.walkPath(this.analyzer.normalize(prefix)).map(node => ({
+      char: node.label,
+      isEndOfWord: node.isEndOfWord,
+      itemCount: this.nodePostings(node).length,
       children: []
-    });
-
-    // Traverse the trie for each character in the prefix
-    for (let i = 0; i < lowerPrefix.length; i++) {
-      const currentChar = lowerPrefix[i];
-      if (!current.children.has(currentChar)) {
-        return path; // Return the path so far if we can't go further
-      }
-
-      current = current.children.get(currentChar)!;
-      path.push({
-        char: current.char,
-        isEndOfWord: current.isEndOfWord,
-        itemCount: current.items.length,
-        children: []
-      });
-    }
-
-    return path;
+    }));
   }
 }
 
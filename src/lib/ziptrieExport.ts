@@ -1,11 +1,19 @@
 // src/lib/ziptrieExport.ts
-import { ZipTrie, ZipTrieNode } from './ziptrie';
+import { ZipTrie, ZipTrieNode, UNKNOWN_FIELD } from './ziptrie';
+import { PostingList } from './postings';
+import { Analyzer, AnalyzerConfig } from './analyzer';
 
 // Define the serializable trie structure
 export interface SerializedTrieNode {
+  // Edge label of the node (a single character in tries stored before path compression)
   char: string;
   isEndOfWord: boolean;
-  itemIds: string[];
+  // Item IDs of the documents containing this word, by source field
+  fieldItemIds?: Record<string, string[]>;
+  // Occurrences of the word in each document listed in fieldItemIds, in the same order
+  fieldFrequencies?: Record<string, number[]>;
+  // Item IDs without field information (tries exported before postings were kept per field)
+  itemIds?: string[];
   children: Record<string, SerializedTrieNode>;
 }
 
@@ -23,10 +31,9 @@ export class ExportableZipTrie extends ZipTrie {
   }
 
   /**
-   * Get access to the root node (protected method in base class)
+   * Get access to the root node (protected property in base class)
    */
   private getRoot(): ZipTrieNode {
-    // @ts-expect-error - accessing protected property
     return this.root;
   }
 
@@ -35,16 +42,24 @@ export class ExportableZipTrie extends ZipTrie {
    */
   private exportNode(node: ZipTrieNode): SerializedTrieNode {
     const result: SerializedTrieNode = {
-      char: node.char,
+      char: node.label,
       isEndOfWord: node.isEndOfWord,
-      // Only store item IDs at terminal nodes, not full objects
-      itemIds: node.isEndOfWord ? node.items.map(item => this.getItemIdFromItem(item)) : [],
       children: {}
     };
 
+    // Only store item IDs at terminal nodes, not full objects or internal document IDs
+    if (node.isEndOfWord) {
+      result.fieldItemIds = {};
+      result.fieldFrequencies = {};
+      for (const [field, postings] of node.postings) {
+        result.fieldItemIds[field] = postings.docIds.map(docId => this.getItemIdFromItem(this.documents[docId]));
+        result.fieldFrequencies[field] = postings.frequencies.slice();
+      }
+    }
+
     // Export all children
-    for (const [char, childNode] of node.children.entries()) {
-      result.children[char] = this.exportNode(childNode);
+    for (const [firstChar, childNode] of node.children.entries()) {
+      result.children[firstChar] = this.exportNode(childNode);
     }
 
     return result;
@@ -54,55 +69,114 @@ export class ExportableZipTrie extends ZipTrie {
    * Import a previously exported trie
    * @param exportedTrie The exported trie structure
    * @param itemsMap A map of item IDs to their full objects
+   * @param analyzerConfig The analyzer the trie was built with, so queries are analyzed the same way
    */
-  static import(exportedTrie: SerializedTrieNode, itemsMap: Record<string, Record<string, unknown>>): ExportableZipTrie {
+  static import(
+    exportedTrie: SerializedTrieNode,
+    itemsMap: Record<string, Record<string, unknown>>,
+    analyzerConfig?: AnalyzerConfig
+  ): ExportableZipTrie {
     const trie = new ExportableZipTrie();
     
     // Clear the trie first
     trie.clear();
+    trie.setAnalyzer(new Analyzer(analyzerConfig));
     
-    // Import the structure
-    this.importNode(trie.getRoot(), exportedTrie, itemsMap);
+    // Import the structure, assigning document IDs as items are first seen
+    const docIds = new Map<string, number>();
+    this.importNode(trie, trie.getRoot(), exportedTrie, itemsMap, docIds);
+    
+    // Older exports stored one character per node - collapse those chains
+    trie.compact();
+
+    // Field lengths for BM25 and derived forms aren't exported, so work them out from the records
+    trie.analyzeDocuments();
     
     return trie;
   }
 
+  /**
+   * Analyze every indexed field of every imported document again, to record
+   * the field lengths and rebuild the indexes of derived forms (e.g. stems),
+   * which aren't exported
+   */
+  private analyzeDocuments(): void {
+    const fields = this.getIndexedFields().filter(field => field !== UNKNOWN_FIELD);
+
+    this.documents.forEach((item, docId) => {
+      for (const field of fields) {
+        const values = this.analyzeFieldValues(item, field);
+        if (values.length === 0) continue;
+
+        let length = 0;
+        for (const tokens of values) {
+          length += this.countPositions(tokens);
+          for (const token of tokens) {
+            if (token.kind) {
+              this.indexToken(token, docId, field);
+            }
+          }
+        }
+        this.recordFieldLength(docId, field, length);
+      }
+    });
+  }
+
   /**
    * Import a node from a serialized format
    */
   private static importNode(
+    trie: ExportableZipTrie,
     targetNode: ZipTrieNode, 
     sourceNode: SerializedTrieNode, 
-    itemsMap: Record<string, Record<string, unknown>>
+    itemsMap: Record<string, Record<string, unknown>>,
+    docIds: Map<string, number>
   ): void {
     // Set basic properties
-    targetNode.char = sourceNode.char;
+    targetNode.label = sourceNode.char;
     targetNode.isEndOfWord = sourceNode.isEndOfWord;
     
-    // Add items if this is an end of word
-    if (sourceNode.isEndOfWord && Array.isArray(sourceNode.itemIds)) {
-      targetNode.items = sourceNode.itemIds
-        .map((id: string) => itemsMap[id])
-        .filter((item: Record<string, unknown> | undefined) => item !== undefined);
+    // Add postings if this is an end of word. Older exports have no field
+    // information, so their postings are filed under UNKNOWN_FIELD, and no
+    // term frequencies, so each document counts the word once.
+    if (sourceNode.isEndOfWord) {
+      const fieldItemIds = sourceNode.fieldItemIds
+        ?? (Array.isArray(sourceNode.itemIds) ? { [UNKNOWN_FIELD]: sourceNode.itemIds } : {});
+      
+      for (const [field, itemIds] of Object.entries(fieldItemIds)) {
+        const frequencies = sourceNode.fieldFrequencies?.[field];
+
+        itemIds.forEach((id, index) => {
+          const item = itemsMap[id];
+          if (item === undefined) return;
+          
+          let docId = docIds.get(id);
+          if (docId === undefined) {
+            docId = trie.addDocument(item);
+            docIds.set(id, docId);
+          }
+          trie.addNodePosting(targetNode, field, docId, frequencies?.[index] ?? 1);
+        });
+      }
     }
     
     // Import all children
-    for (const char in sourceNode.children) {
-      if (Object.prototype.hasOwnProperty.call(sourceNode.children, char)) {
-        const childData = sourceNode.children[char];
+    for (const firstChar in sourceNode.children) {
+      if (Object.prototype.hasOwnProperty.call(sourceNode.children, firstChar)) {
+        const childData = sourceNode.children[firstChar];
         // Create a new node for this child
         const childNode = {
-          char,
+          label: childData.char,
           children: new Map<string, ZipTrieNode>(),
           isEndOfWord: false,
-          items: []
+          postings: new Map<string, PostingList>()
         };
         
         // Import the child node recursively
-        this.importNode(childNode, childData, itemsMap);
+        this.importNode(trie, childNode, childData, itemsMap, docIds);
         
         // Add the child to the parent
-        targetNode.children.set(char, childNode);
+        targetNode.children.set(firstChar, childNode);
       }
     }
   }
@@ -129,9 +203,11 @@ export class ExportableZipTrie extends ZipTrie {
  */
 export function createExportableZipTrie(
   data: Record<string, unknown>[], 
-  searchFields: string[]
+  searchFields: string[],
+  analyzerConfig?: AnalyzerConfig
 ): ExportableZipTrie {
   const trie = new ExportableZipTrie();
+  trie.setAnalyzer(new Analyzer(analyzerConfig));
   trie.loadData(data, searchFields);
   return trie;
 }